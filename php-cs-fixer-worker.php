@@ -0,0 +1,127 @@
+<?php
+
+/*
+ * long-lived php-cs-fixer process used by the vscode extension.
+ *
+ * usage: php php-cs-fixer-worker.php /path/to/php-cs-fixer(.phar)
+ *
+ * every line of stdin is a json request: {"id": 1, "args": ["fix", ...], "cwd": "/path", "env": {"NAME": "value"}}
+ * every line of stdout is a json response: {"id": 1, "exitCode": 0, "stdout": "...", "stderr": "..."}
+ */
+
+use PhpCsFixer\Console\Application;
+use Symfony\Component\Console\Input\ArgvInput;
+use Symfony\Component\Console\Output\ConsoleOutputInterface;
+use Symfony\Component\Console\Output\ConsoleSectionOutput;
+use Symfony\Component\Console\Output\OutputInterface;
+use Symfony\Component\Console\Output\StreamOutput;
+
+error_reporting(E_ALL & ~E_DEPRECATED & ~E_USER_DEPRECATED);
+
+if (!isset($argv[1])) {
+    fwrite(STDERR, "php-cs-fixer path is required\n");
+    exit(1);
+}
+
+$fixer = $argv[1];
+$autoloads = [];
+if ('.phar' === substr($fixer, -5)) {
+    $autoloads[] = 'phar://' . $fixer . '/vendor/autoload.php';
+} else {
+    // vendor/bin/php-cs-fixer, or the symlink target vendor/friendsofphp/php-cs-fixer/php-cs-fixer
+    $real = realpath($fixer) ?: $fixer;
+    $autoloads[] = dirname($fixer) . '/../autoload.php';
+    $autoloads[] = dirname($real) . '/vendor/autoload.php';
+    $autoloads[] = dirname($real) . '/../../autoload.php';
+}
+
+$loaded = false;
+foreach ($autoloads as $autoload) {
+    if (file_exists($autoload)) {
+        require $autoload;
+        $loaded = class_exists(Application::class);
+        if ($loaded) {
+            break;
+        }
+    }
+}
+if (!$loaded) {
+    fwrite(STDERR, "can't load php-cs-fixer from: {$fixer}\n");
+    exit(1);
+}
+
+final class WorkerOutput extends StreamOutput implements ConsoleOutputInterface
+{
+    private $stderr;
+
+    public function __construct()
+    {
+        parent::__construct(fopen('php://memory', 'w+'), self::VERBOSITY_NORMAL, false);
+        $this->stderr = new StreamOutput(fopen('php://memory', 'w+'), self::VERBOSITY_NORMAL, false);
+    }
+
+    public function getErrorOutput(): OutputInterface
+    {
+        return $this->stderr;
+    }
+
+    public function setErrorOutput(OutputInterface $error): void
+    {
+        $this->stderr = $error;
+    }
+
+    public function section(): ConsoleSectionOutput
+    {
+        throw new \LogicException('Output sections are not supported by the worker.');
+    }
+
+    public static function read(OutputInterface $output): string
+    {
+        if (!$output instanceof StreamOutput) {
+            return '';
+        }
+        rewind($output->getStream());
+
+        return stream_get_contents($output->getStream());
+    }
+}
+
+$cwd = getcwd();
+while (false !== ($line = fgets(STDIN))) {
+    $request = json_decode($line, true);
+    if (!is_array($request) || !isset($request['id'])) {
+        continue;
+    }
+
+    chdir(isset($request['cwd']) ? $request['cwd'] : $cwd);
+    // the variables of a request only last for it, eg: PHP_CS_FIXER_IGNORE_ENV
+    $env = isset($request['env']) && is_array($request['env']) ? $request['env'] : [];
+    foreach ($env as $name => $value) {
+        putenv($name . '=' . $value);
+        $_SERVER[$name] = $value;
+    }
+    $output = new WorkerOutput();
+    ob_start();
+    try {
+        $application = new Application();
+        $application->setAutoExit(false);
+        $application->setCatchExceptions(true);
+        $exitCode = $application->run(new ArgvInput(array_merge(['php-cs-fixer'], $request['args'])), $output);
+    } catch (\Throwable $e) {
+        $output->getErrorOutput()->writeln(get_class($e) . ': ' . $e->getMessage());
+        $exitCode = 64;
+    }
+    $echoed = ob_get_clean();
+    foreach ($env as $name => $value) {
+        putenv($name);
+        unset($_SERVER[$name]);
+    }
+
+    fwrite(STDOUT, json_encode([
+        'id' => $request['id'],
+        'exitCode' => $exitCode,
+        'stdout' => WorkerOutput::read($output) . $echoed,
+        'stderr' => WorkerOutput::read($output->getErrorOutput()),
+    ], JSON_INVALID_UTF8_SUBSTITUTE) . "\n");
+    fflush(STDOUT);
+}
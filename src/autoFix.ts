@@ -0,0 +1,256 @@
+const phpParser = require('php-parser')
+
+export interface Fragment {
+  // the offsets of the code to replace in the document
+  start: number
+  end: number
+  // the code of the document between start and end
+  text: string
+  // a complete php file for php-cs-fixer
+  code: string
+  // the formatted code to put between start and end, from the output of php-cs-fixer, null if it isn't found
+  extract: (fixed: string) => string | null
+}
+
+type Unit = 'statement' | 'member' | 'expression'
+
+// nodes whose children are statements
+const statementLists = ['program', 'namespace', 'block', 'declare']
+// nodes whose children are class members
+const classLikes = ['class', 'trait', 'enum', 'interface']
+// expressions with a block, formatted on their own instead of the whole statement
+const blockExpressions = ['closure', 'match', 'new']
+const modifiers = /^\s*(?:(?:abstract|final|public|protected|private|static|readonly)\s+)*$/
+
+const prefix = '<?php\n$__pcf__spliter=0;\n'
+// also the blank lines php-cs-fixer may add before the statement
+const prefixPattern = /^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\s*/
+
+function parse(code: string): any {
+  const parser = new phpParser({ parser: { extractDoc: false, suppressErrors: true }, ast: { withPositions: true } })
+  return parser.parseCode(code, 'fragment.php')
+}
+
+/**
+ * the nodes ending at offset, each with its parents
+ */
+function findNodesEndingAt(node: any, offset: number, parents: any[] = [], found: any[][] = []): any[][] {
+  if (node == null || typeof node != 'object') {
+    return found
+  }
+  if (Array.isArray(node)) {
+    node.forEach((child) => findNodesEndingAt(child, offset, parents, found))
+    return found
+  }
+  if (node.loc != null && (node.loc.start.offset > offset || node.loc.end.offset < offset)) {
+    return found
+  }
+  if (node.kind && node.loc?.end.offset == offset) {
+    found.push([...parents, node])
+  }
+  const chain = node.kind ? [...parents, node] : parents
+  for (const key of Object.keys(node)) {
+    if (key != 'loc' && key != 'leadingComments' && key != 'trailingComments') {
+      findNodesEndingAt(node[key], offset, chain, found)
+    }
+  }
+  return found
+}
+
+/**
+ * the enclosing unit of the deepest node: a statement, a class member, or an expression like a closure or a match
+ */
+function findUnit(chain: any[]): { node: any; unit: Unit } | null {
+  for (let i = chain.length - 1; i > 0; i--) {
+    const node = chain[i]
+    const parent = chain[i - 1]
+    if (blockExpressions.includes(node.kind) || (node.kind == 'class' && parent.kind == 'new')) {
+      // `new class {}` as a whole, and the arrow functions returning the expression
+      let j = node.kind == 'class' ? i - 1 : i
+      while (j > 1 && chain[j - 1].kind == 'arrowfunc') {
+        j--
+      }
+      return { node: chain[j], unit: 'expression' }
+    }
+    if (classLikes.includes(parent.kind) && node.kind != 'identifier' && node.kind != 'name') {
+      return { node, unit: 'member' }
+    }
+    if (node.kind == 'namespace') {
+      // a namespace must be the first statement, and is the whole file anyway
+      return null
+    }
+    if (statementLists.includes(parent.kind)) {
+      return { node, unit: 'statement' }
+    }
+  }
+  return null
+}
+
+function nodeStart(node: any): number {
+  const starts = [node.loc.start.offset, ...(node.attrGroups || []).map((group) => group.loc?.start.offset).filter((offset) => offset != null)]
+  return Math.min(...starts)
+}
+
+/**
+ * remove the indent from the lines, except the first one if it doesn't start a line
+ */
+function dedent(code: string, indent: string, firstLine: boolean): string {
+  return code
+    .split('\n')
+    .map((line, i) => ((i > 0 || firstLine) && line.startsWith(indent) ? line.slice(indent.length) : line))
+    .join('\n')
+}
+
+function reindent(code: string, indent: string, firstLine: boolean): string {
+  return code
+    .split('\n')
+    .map((line, i) => ((i > 0 || firstLine) && line.trim() != '' ? indent + line : line))
+    .join('\n')
+}
+
+/**
+ * whether reindenting would change the code, eg: a string or a heredoc over several lines
+ */
+function hasMultilineStrings(code: string): boolean {
+  const tokens = new phpParser().tokenGetAll('<?php ' + code)
+  return tokens.some(
+    (token) =>
+      Array.isArray(token) &&
+      (token[0] == 'T_INLINE_HTML' || token[0] == 'T_START_HEREDOC' || ((token[0] == 'T_CONSTANT_ENCAPSED_STRING' || token[0] == 'T_ENCAPSED_AND_WHITESPACE') && token[1].includes('\n')))
+  )
+}
+
+/**
+ * the code to format after typing the `}` at offset: the statement, class member, closure or match the bracket ends,
+ * wrapped in a complete php file. null if the bracket doesn't end a block.
+ */
+export function findBracketFragment(text: string, offset: number): Fragment | null {
+  if (text[offset] != '}') {
+    return null
+  }
+  const found = findNodesEndingAt(parse(text), offset + 1)
+  if (found.length == 0) {
+    return null
+  }
+  const deepest = found.reduce((a, b) => (b.length > a.length ? b : a))
+  const result = findUnit(deepest)
+  if (result == null) {
+    return null
+  }
+
+  const { node, unit } = result
+  const end = node.loc.end.offset
+  let start = nodeStart(node)
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1
+  const indent = text.slice(lineStart, text.slice(lineStart).search(/\S|$/) + lineStart)
+  if (unit != 'expression') {
+    // the modifiers of a method may not be part of the node
+    if (!(unit == 'member' ? modifiers : /^\s*$/).test(text.slice(lineStart, start))) {
+      return null
+    }
+    start = lineStart
+  }
+
+  const source = text.slice(start, end)
+  if (indent != '' && hasMultilineStrings(source)) {
+    return null
+  }
+  const firstLine = unit != 'expression'
+  const code = dedent(source, indent, firstLine)
+  const fragment: Fragment = { start, end, text: source, code: '', extract: null }
+  if (unit == 'statement') {
+    fragment.code = prefix + code + '\n'
+    fragment.extract = (fixed) => (prefixPattern.test(fixed) ? fixed.replace(prefixPattern, '').replace(/\s*$/, '') : null)
+  } else if (unit == 'member') {
+    fragment.code = prefix + 'class __pcf__\n{\n' + code + '\n}\n'
+    fragment.extract = (fixed) => {
+      const ms = fixed.match(/^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\s*class __pcf__\s*\{\s*?\r?\n([\s\S]*?)\s*\}\s*$/)
+      if (ms == null) {
+        return null
+      }
+      // the member is indented in the class
+      const lines = ms[1].replace(/^(?:[ \t]*\r?\n)+/, '')
+      return dedent(lines, lines.match(/^[ \t]*/)[0], true)
+    }
+  } else {
+    fragment.code = prefix + '$__pcf__ = ' + code + ';\n'
+    fragment.extract = (fixed) => {
+      const ms = fixed.match(/^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\s*\$__pcf__\s*=\s*([\s\S]*?);\s*$/)
+      return ms == null ? null : ms[1]
+    }
+  }
+
+  // the document may have other errors, but the fragment must be complete
+  if (parse(fragment.code).errors.length > 0) {
+    return null
+  }
+  const extract = fragment.extract
+  fragment.extract = (fixed) => {
+    const formatted = extract(fixed)
+    return formatted == null ? null : reindent(formatted, indent, firstLine)
+  }
+  return fragment
+}
+
+/**
+ * the statements and class members of the parsed code
+ */
+function collectStatements(node: any, parent: any = null, found: any[] = []): any[] {
+  if (node == null || typeof node != 'object') {
+    return found
+  }
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectStatements(child, parent, found))
+    return found
+  }
+  if (node.kind && node.loc != null && parent != null) {
+    if (statementLists.includes(parent.kind) || (classLikes.includes(parent.kind) && !['identifier', 'name', 'attrgroup'].includes(node.kind))) {
+      found.push(node)
+    }
+  }
+  for (const key of Object.keys(node)) {
+    if (key != 'loc' && key != 'leadingComments' && key != 'trailingComments') {
+      collectStatements(node[key], node.kind ? node : parent, found)
+    }
+  }
+  return found
+}
+
+/**
+ * the range expanded to the statements it cuts, or to the statement it is in, then to whole lines
+ */
+export function expandToStatements(text: string, start: number, end: number): [number, number] {
+  const statements = collectStatements(parse(text))
+  let newStart = start
+  let newEnd = end
+  for (const node of statements) {
+    const s = nodeStart(node)
+    const e = node.loc.end.offset
+    // the statements containing the range are not formatted as a whole
+    if (s <= start && end <= e) {
+      continue
+    }
+    if (s < start && start < e) {
+      newStart = Math.min(newStart, s)
+    }
+    if (s < end && end < e) {
+      newEnd = Math.max(newEnd, e)
+    }
+  }
+  if (!statements.some((node) => nodeStart(node) >= newStart && node.loc.end.offset <= newEnd)) {
+    const containing = statements.filter((node) => nodeStart(node) <= start && end <= node.loc.end.offset)
+    if (containing.length > 0) {
+      const deepest = containing.reduce((a, b) => (b.loc.end.offset - nodeStart(b) < a.loc.end.offset - nodeStart(a) ? b : a))
+      newStart = nodeStart(deepest)
+      newEnd = deepest.loc.end.offset
+    }
+  }
+
+  newStart = text.lastIndexOf('\n', newStart - 1) + 1
+  if (newEnd == newStart || text[newEnd - 1] != '\n') {
+    const lineEnd = text.indexOf('\n', newEnd)
+    newEnd = lineEnd == -1 ? text.length : lineEnd + 1
+  }
+  return [newStart, newEnd]
+}
+
@@ -1,4 +1,4 @@
-const beautifyHtml = require('js-beautify').html
+const jsBeautify = require('js-beautify')
 const phpParser = require('php-parser')
 const htmlparser = require('htmlparser2')
 
@@ -23,103 +23,92 @@ function getTagsFormatOption(options, key, dflt) {
   return dflt
 }
 
-function preAction(php: string): string {
-  let scriptStyleRanges = getScriptStyleRanges(php)
-  let strArr = []
-  let tokens = new phpParser().tokenGetAll(php)
-  let c = tokens.length
-  let index = 0
-  for (let i = 0; i < c; i++) {
-    let t = tokens[i]
-    if (inScriptStyleTag(scriptStyleRanges, index)) {
-      if (typeof t == 'object') {
-        if (t[0] == 'T_OPEN_TAG' || t[0] == 'T_OPEN_TAG_WITH_ECHO') {
-          strArr.push('/*%pcs-comment-start#' + t[1])
-        } else if (t[0] == 'T_CLOSE_TAG') {
-          // fix new line issue
-          let ms = t[1].match(/(\S+)(\s+)$/)
-          if (ms) {
-            strArr.push(ms[1] + '%pcs-comment-end#*/' + ms[2])
-          } else {
-            strArr.push(t[1] + '%pcs-comment-end#*/')
-          }
-        } else {
-          if (t[0] == 'T_INLINE_HTML') {
-            strArr.push(t[1])
-          } else {
-            let str = t[1].replace(/\*\//g, '*%comment-end#/').replace(/"/g, 'pcs%quote#1').replace(/'/g, 'pcs%quote~2')
-            strArr.push(str)
-          }
-        }
-        index += t[1].length
-      } else {
-        strArr.push(t)
-        index += t.length
-      }
-    } else {
-      if (typeof t == 'object') {
-        if (t[0] == 'T_OPEN_TAG' || t[0] == 'T_OPEN_TAG_WITH_ECHO') {
-          // <i></i><!-- will not make comment to a new line;
-          strArr.push('<i></i><!-- %pcs-comment-start#' + t[1])
-        } else if (t[0] == 'T_CLOSE_TAG') {
-          // fix new line issue
-          var ms = t[1].match(/(\S+)(\s+)$/)
-          if (ms) {
-            strArr.push(ms[1] + '%pcs-comment-end#-->' + ms[2])
-          } else {
-            strArr.push(t[1] + '%pcs-comment-end#-->')
-          }
-        } else {
-          if (t[0] == 'T_INLINE_HTML') {
-            strArr.push(t[1])
-          } else {
-            let str = t[1].replace(/-->/g, '-%comment-end#->').replace(/"/g, 'pcs%quote#1').replace(/'/g, 'pcs%quote~2')
-            strArr.push(str)
-          }
-        }
-        index += t[1].length
-      } else {
-        strArr.push(t)
-        index += t.length
-      }
-    }
+/**
+ * formats the code of a <script> or <style> element, its php code is replaced by placeholders
+ */
+export type EmbeddedFormatter = (code: string, options: any) => string
+
+const embeddedFormatters = new Map<'script' | 'style', EmbeddedFormatter>()
+
+/**
+ * format the code of the <script> or <style> elements with another formatter than js-beautify, eg: registered by
+ * another extension through the api of this extension. null restores js-beautify.
+ */
+export function setEmbeddedFormatter(tag: 'script' | 'style', formatter: EmbeddedFormatter | null) {
+  formatter == null ? embeddedFormatters.delete(tag) : embeddedFormatters.set(tag, formatter)
+}
+
+/**
+ * the formatter of the tag, the code is kept as it is if a registered formatter fails
+ */
+function getEmbeddedFormatter(tag: 'script' | 'style'): EmbeddedFormatter {
+  const formatter = embeddedFormatters.get(tag)
+  if (formatter == undefined) {
+    return tag == 'script' ? jsBeautify.js : jsBeautify.css
   }
-  if (typeof tokens[c - 1] == 'object' && tokens[c - 1][0] != 'T_CLOSE_TAG' && tokens[c - 1][0] != 'T_INLINE_HTML') {
-    strArr.push('?>%pcs-comment-end#-->')
+  return (code, options) => {
+    try {
+      return formatter(code, options)
+    } catch (err) {
+      return code
+    }
   }
-  return strArr.join('')
 }
 
-function afterAction(php: string): string {
-  return php
-    // .replace(/\?>\s*%pcs-comment-end#-->\s*$/g, '')
-    .replace(/%pcs-comment-end#-->/g, '')
-    .replace(/<i>\s*<\/i>\s*<!-- %pcs-comment-start#/g, '')
-    .replace(/-%comment-end#->/g, '-->')
-    .replace(/%pcs-comment-end#\*\//g, '')
-    .replace(/\/\*%pcs-comment-start#/g, '')
-    .replace(/\*%comment-end#\//g, '*/')
-    .replace(/pcs%quote#1/g, '"')
-    .replace(/pcs%quote~2/g, "'")
+interface PhpBlock {
+  // offsets in the template, from the open tag to the close tag
+  start: number
+  end: number
+  // `<?= ?>` or `<?php echo ?>`, a value in a text, an attribute or a script
+  isEcho: boolean
 }
 
 /**
- * get all script/style tag ranges
- * @param {php code} php
+ * the php code of the template, found by the php tokenizer, so a `?>` in a php string doesn't end a block
  */
-function getScriptStyleRanges(php) {
-  let ranges = []
-  let start = 0
+function getPhpBlocks(text: string): PhpBlock[] {
+  let blocks: PhpBlock[] = []
+  let block: PhpBlock = null
+  let first = false
+  let offset = 0
+  for (let t of new phpParser().tokenGetAll(text)) {
+    let [name, value] = typeof t == 'string' ? [null, t] : [t[0], t[1]]
+    if (name == 'T_OPEN_TAG' || name == 'T_OPEN_TAG_WITH_ECHO') {
+      block = { start: offset, end: text.length, isEcho: name == 'T_OPEN_TAG_WITH_ECHO' }
+      blocks.push(block)
+      first = true
+    } else if (block != null && name == 'T_CLOSE_TAG') {
+      // the new line after ?> stays in the html
+      block.end = offset + value.replace(/\r?\n$/, '').length
+      block = null
+    } else if (block != null && first && name != 'T_WHITESPACE') {
+      block.isEcho = block.isEcho || name == 'T_ECHO' || name == 'T_PRINT'
+      first = false
+    }
+    offset += value.length
+  }
+  return blocks
+}
+
+/**
+ * the ranges of the tags, and of the content of the <script> and <style> elements
+ */
+function getHtmlRanges(html: string): { tags: number[][]; scripts: number[][] } {
+  let tags = []
+  let scripts = []
+  let contentStart = -1
   let parser = new htmlparser.Parser(
     {
       onopentag: (name) => {
+        tags.push([parser.startIndex, parser.endIndex + 1])
         if (name === 'script' || name === 'style') {
-          start = parser.startIndex
+          contentStart = parser.endIndex + 1
         }
       },
       onclosetag: (name) => {
-        if (name === 'script' || name === 'style') {
-          ranges.push([start, parser.endIndex])
+        if ((name === 'script' || name === 'style') && contentStart > -1) {
+          scripts.push([contentStart, parser.startIndex])
+          contentStart = -1
         }
       },
     },
@@ -127,18 +116,75 @@ function getScriptStyleRanges(php) {
       decodeEntities: true,
     }
   )
-  parser.write(php)
+  parser.write(html)
   parser.end()
-  return ranges
+  return { tags, scripts }
+}
+
+function inRanges(ranges: number[][], index: number): boolean {
+  return ranges.some(([start, end]) => index >= start && index < end)
+}
+
+/**
+ * a prefix of the placeholders which is not in the text
+ */
+function getPlaceholderPrefix(text: string): string {
+  let prefix: string
+  do {
+    prefix = 'pcs' + Math.random().toString(36).slice(2, 8) + '_'
+  } while (text.includes(prefix))
+  return prefix
 }
 
-function inScriptStyleTag(ranges: number[], index: number) {
-  for (let i = 0, c = ranges.length; i < c; i++) {
-    if (index >= ranges[i][0] && index <= ranges[i][1]) {
-      return true
+/**
+ * replace the php blocks by placeholders that the html, js and css formatters keep: a word for the values,
+ * a comment for the statements, eg: `<?php foreach ($items as $item): ?>`
+ */
+function toPlaceholders(text: string, blocks: PhpBlock[], prefix: string): string {
+  // the blocks are words first, to find the tags and scripts they are in
+  let masked = ''
+  let positions: number[] = []
+  let last = 0
+  blocks.forEach((block, i) => {
+    masked += text.slice(last, block.start)
+    positions.push(masked.length)
+    masked += prefix + i + '_'
+    last = block.end
+  })
+  masked += text.slice(last)
+
+  let { tags, scripts } = getHtmlRanges(masked)
+  let html = ''
+  last = 0
+  blocks.forEach((block, i) => {
+    let word = prefix + i + '_'
+    html += masked.slice(last, positions[i])
+    if (block.isEcho || inRanges(tags, positions[i])) {
+      html += word
+    } else if (inRanges(scripts, positions[i])) {
+      html += '/*' + word + '*/'
+    } else {
+      html += '<!--' + word + '-->'
     }
-  }
-  return false
+    last = positions[i] + word.length
+  })
+  return html + masked.slice(last)
+}
+
+/**
+ * put the php blocks back, null if a formatter dropped or copied a placeholder
+ */
+function fromPlaceholders(html: string, text: string, blocks: PhpBlock[], prefix: string): string | null {
+  let pattern = new RegExp(`<!--\\s*(${prefix}\\d+_)\\s*-->|/\\*\\s*(${prefix}\\d+_)\\s*\\*/|(${prefix}\\d+_)`, 'g')
+  let restored = new Set<number>()
+  let count = 0
+  let result = html.replace(pattern, (match, comment, jsComment, word) => {
+    let i = parseInt((comment || jsComment || word).slice(prefix.length))
+    restored.add(i)
+    count++
+    return text.slice(blocks[i].start, blocks[i].end)
+  })
+  return count == blocks.length && restored.size == blocks.length ? result : null
 }
 
 export function beautify(text: string, options: any): string {
@@ -166,6 +212,9 @@ export function beautify(text: string, options: any): string {
     templating: 'php',
   }
 
-  let php = preAction(text)
-  return afterAction(beautifyHtml(php, htmlOptions))
+  let blocks = getPhpBlocks(text)
+  let prefix = getPlaceholderPrefix(text)
+  let html = jsBeautify.html(toPlaceholders(text, blocks, prefix), htmlOptions, getEmbeddedFormatter('script'), getEmbeddedFormatter('style'))
+  // keep the template as it is rather than breaking it
+  return fromPlaceholders(html, text, blocks, prefix) ?? text
 }
@@ -0,0 +1,81 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { logger } from './output'
+
+// the most recently used entries are at the end
+const memory = new Map<string, string>()
+const maxMemoryEntries = 100
+const maxDiskAge = 1000 * 3600 * 24 * 7
+let cacheDir: string = null
+
+export function hash(...parts: string[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+/**
+ * also keep the results on disk, so they survive a restart. entries not used for a week are removed.
+ */
+export function initDiskCache(dir: string) {
+  cacheDir = dir
+  fs.readdir(dir, (err, files) => {
+    if (err) {
+      return
+    }
+    const now = Date.now()
+    for (const file of files) {
+      const filePath = path.join(dir, file)
+      fs.stat(filePath, (err, stat) => {
+        if (!err && now - stat.mtimeMs > maxDiskAge) {
+          fs.rm(filePath, { force: true }, () => {})
+        }
+      })
+    }
+  })
+}
+
+export function getCached(key: string, disk: boolean): string | undefined {
+  if (memory.has(key)) {
+    const text = memory.get(key)
+    memory.delete(key)
+    memory.set(key, text)
+    return text
+  }
+  if (disk && cacheDir != null) {
+    try {
+      const filePath = path.join(cacheDir, key)
+      const text = fs.readFileSync(filePath, 'utf-8')
+      const now = new Date()
+      fs.utimes(filePath, now, now, () => {})
+      setMemory(key, text)
+      return text
+    } catch (err) {
+      // not cached
+    }
+  }
+  return undefined
+}
+
+export function setCached(key: string, text: string, disk: boolean) {
+  setMemory(key, text)
+  if (disk && cacheDir != null) {
+    fs.mkdir(cacheDir, { recursive: true }, (err) => {
+      err || fs.writeFile(path.join(cacheDir, key), text, (err) => err && logger.error('cache: ' + err.message))
+    })
+  }
+}
+
+function setMemory(key: string, text: string) {
+  memory.delete(key)
+  memory.set(key, text)
+  if (memory.size > maxMemoryEntries) {
+    memory.delete(memory.keys().next().value)
+  }
+}
+
+export function clearCache() {
+  memory.clear()
+  if (cacheDir != null) {
+    fs.rm(cacheDir, { recursive: true, force: true }, (err) => err && logger.warn('cache: ' + err.message))
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * a json value as php code, objects become associative arrays
+ */
+export function toPhpValue(value: any, indent: string = ''): string {
+  if (value === null || value === undefined) {
+    return 'null'
+  }
+  if (typeof value == 'boolean' || typeof value == 'number') {
+    return String(value)
+  }
+  if (typeof value == 'string') {
+    return "'" + value.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "'"
+  }
+
+  const inner = indent + '    '
+  const items = Array.isArray(value) ? value.map((v) => toPhpValue(v, inner)) : Object.keys(value).map((k) => toPhpValue(k) + ' => ' + toPhpValue(value[k], inner))
+  if (items.length == 0) {
+    return '[]'
+  }
+  return '[\n' + items.map((item) => inner + item + ',\n').join('') + indent + ']'
+}
+
+/**
+ * the index of the `}` closing the `{` at start, -1 if it isn't closed
+ */
+function findClosingBrace(glob: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < glob.length; i++) {
+    if (glob[i] == '{') {
+      depth++
+    } else if (glob[i] == '}' && --depth == 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * a glob of the `exclude` setting as a regex for Finder::notPath(), which matches the paths relative to the folder.
+ * `{a,b}` becomes an alternation and `[abc]`, `[!abc]` a character class, an unclosed one is a literal character.
+ */
+export function globToFinderRegex(glob: string, folderPath: string): string {
+  if (glob.startsWith(folderPath + '/')) {
+    glob = glob.slice(folderPath.length + 1)
+  }
+  let regex = ''
+  // the `{` opened and not closed yet
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    const bracketEnd = c == '[' ? glob.indexOf(']', i + 2) : -1
+    if (glob.startsWith('**/', i)) {
+      regex += '(?:.*/)?'
+      i += 2
+    } else if (glob.startsWith('**', i)) {
+      regex += '.*'
+      i++
+    } else if (c == '*') {
+      regex += '[^/]*'
+    } else if (c == '?') {
+      regex += '[^/]'
+    } else if (c == '{' && findClosingBrace(glob, i) != -1) {
+      regex += '(?:'
+      braces++
+    } else if (c == '}' && braces > 0) {
+      regex += ')'
+      braces--
+    } else if (c == ',' && braces > 0) {
+      regex += '|'
+    } else if (bracketEnd != -1) {
+      let chars = glob.slice(i + 1, bracketEnd)
+      const negated = chars[0] == '!' || chars[0] == '^'
+      chars = (negated ? chars.slice(1) : chars).replace(/[\\[#]/g, '\\$&')
+      // like `?`, a negated class doesn't match the separator
+      regex += '[' + (negated ? '^/' : '') + chars + ']'
+      i = bracketEnd
+    } else {
+      regex += c.replace(/[.+^${}()|[\]\\#]/g, '\\$&')
+    }
+  }
+  return '#^' + regex + '$#'
+}
+
+/**
+ * the content of a .php-cs-fixer.dist.php with the rules and the excluded paths of the settings
+ * @param folderPath the posix path of the folder of the config file
+ */
+export function generateConfig(rules: { [name: string]: any }, allowRisky: boolean, exclude: string[], folderPath: string): string {
+  let code = '<?php\n\n$finder = (new PhpCsFixer\\Finder())\n    ->in(__DIR__)\n'
+  for (const glob of exclude) {
+    code += '    ->notPath(' + toPhpValue(globToFinderRegex(glob, folderPath)) + ')\n'
+  }
+  code += ';\n\nreturn (new PhpCsFixer\\Config())\n'
+  if (allowRisky) {
+    code += '    ->setRiskyAllowed(true)\n'
+  }
+  code += '    ->setRules(' + toPhpValue(rules, '    ') + ')\n'
+  code += '    ->setFinder($finder)\n;\n'
+  return code
+}
+
+/**
+ * the content of a config file running only the given rules with the config file at configPath, the rules keep their
+ * options of that config file, the other settings like the risky rules and the Finder are kept too
+ */
+export function generateRulesConfig(configPath: string, rules: { [name: string]: any }): string {
+  let code = '<?php\n\n$config = require ' + toPhpValue(configPath) + ';\n'
+  code += '$rules = ' + toPhpValue(rules) + ';\n\n'
+  code += 'return $config->setRules(array_intersect_key($config->getRules(), $rules) + $rules);\n'
+  return code
+}
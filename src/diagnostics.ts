@@ -0,0 +1,87 @@
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, languages, Range, TextDocument, Uri } from 'vscode'
+import { getChangedLineRanges, parseUnifiedDiff } from './diff'
+import { FixerError } from './errors'
+
+let diagnosticCollection: DiagnosticCollection = null
+// syntax errors, kept apart so linting and formatting don't remove each other's diagnostics
+let errorCollection: DiagnosticCollection = null
+
+export interface FixerFileResult {
+  name: string
+  appliedFixers?: string[]
+  diff?: string
+}
+
+function createDiagnosticCollection() {
+  if (diagnosticCollection == null) {
+    diagnosticCollection = languages.createDiagnosticCollection('php-cs-fixer')
+  }
+}
+
+/**
+ * one diagnostic per applied fixer and changed line range, php-cs-fixer doesn't report which fixer changed which lines
+ */
+export function updateDiagnostics(document: TextDocument, file: FixerFileResult | null) {
+  createDiagnosticCollection()
+  if (file == null || !file.diff) {
+    diagnosticCollection.delete(document.uri)
+    return
+  }
+
+  let diagnostics: Diagnostic[] = []
+  let fixers = file.appliedFixers || []
+  for (let lineRange of getChangedLineRanges(parseUnifiedDiff(file.diff))) {
+    let end = Math.min(lineRange.end, document.lineCount - 1)
+    let range = document.validateRange(new Range(lineRange.start, 0, end, document.lineAt(end).text.length))
+    for (let fixer of fixers) {
+      let diagnostic = new Diagnostic(range, `${fixer}: code doesn't match the configured style`, DiagnosticSeverity.Warning)
+      diagnostic.source = 'php-cs-fixer'
+      diagnostic.code = fixer
+      diagnostics.push(diagnostic)
+    }
+  }
+  diagnosticCollection.set(document.uri, diagnostics)
+}
+
+export function removeDiagnostics(uri: Uri, code: string) {
+  let diagnostics = diagnosticCollection?.get(uri)
+  if (diagnostics) {
+    diagnosticCollection.set(uri, diagnostics.filter((d) => d.code != code))
+  }
+}
+
+export function clearDiagnostics(uri: Uri = null) {
+  if (uri == null) {
+    diagnosticCollection?.clear()
+  } else {
+    diagnosticCollection?.delete(uri)
+  }
+}
+
+/**
+ * show the syntax error php-cs-fixer reported for the document at its line
+ */
+export function showErrorDiagnostic(document: TextDocument, error: FixerError) {
+  if (errorCollection == null) {
+    errorCollection = languages.createDiagnosticCollection('php-cs-fixer-errors')
+  }
+  const line = Math.min(Math.max(error.line, 0), document.lineCount - 1)
+  const diagnostic = new Diagnostic(document.lineAt(line).range, error.message, DiagnosticSeverity.Error)
+  diagnostic.source = 'php-cs-fixer'
+  errorCollection.set(document.uri, [diagnostic])
+}
+
+export function clearErrorDiagnostics(uri: Uri = null) {
+  if (uri == null) {
+    errorCollection?.clear()
+  } else {
+    errorCollection?.delete(uri)
+  }
+}
+
+export function disposeDiagnostics() {
+  diagnosticCollection?.dispose()
+  diagnosticCollection = null
+  errorCollection?.dispose()
+  errorCollection = null
+}
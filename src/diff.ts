@@ -0,0 +1,350 @@
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: string[]
+}
+
+export interface LineRange {
+  // zero based, inclusive
+  start: number
+  end: number
+}
+
+/**
+ * parse unified diff (as printed by php-cs-fixer --diff) into hunks
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  let hunks: DiffHunk[] = []
+  let hunk: DiffHunk = null
+  for (let line of diff.split('\n')) {
+    let ms = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/)
+    if (ms) {
+      hunk = {
+        oldStart: parseInt(ms[1]),
+        oldLines: ms[2] === undefined ? 1 : parseInt(ms[2]),
+        newStart: parseInt(ms[3]),
+        newLines: ms[4] === undefined ? 1 : parseInt(ms[4]),
+        lines: [],
+      }
+      hunks.push(hunk)
+    } else if (hunk != null && /^[ +\-\\]/.test(line)) {
+      hunk.lines.push(line)
+    }
+  }
+  return hunks
+}
+
+/**
+ * get the changed lines of the original file, an insertion is mapped to the line it is inserted before
+ */
+export function getChangedLineRanges(hunks: DiffHunk[]): LineRange[] {
+  let ranges: LineRange[] = []
+  for (let hunk of hunks) {
+    // oldStart is 0 when the hunk inserts at the very beginning of the file
+    let line = Math.max(hunk.oldStart - 1, 0)
+    let range: LineRange = null
+    for (let l of hunk.lines) {
+      if (l[0] == '-' || l[0] == '+') {
+        if (range == null) {
+          range = { start: line, end: line }
+          ranges.push(range)
+        }
+        if (l[0] == '-') {
+          range.end = line
+          line++
+        }
+      } else if (l[0] == ' ') {
+        range = null
+        line++
+      }
+    }
+  }
+  return ranges
+}
+
+export interface LineReplacement {
+  // zero based lines of the original text, end exclusive
+  start: number
+  end: number
+  oldText: string
+  newText: string
+}
+
+/**
+ * the original lines of a hunk and the text to replace them with
+ */
+export function getHunkReplacement(hunk: DiffHunk): LineReplacement {
+  let oldText = ''
+  let newText = ''
+  for (let i = 0; i < hunk.lines.length; i++) {
+    let l = hunk.lines[i]
+    if (l[0] == '\\') {
+      continue
+    }
+    // "\ No newline at end of file" belongs to the previous line
+    let text = l.slice(1) + (hunk.lines[i + 1]?.[0] == '\\' ? '' : '\n')
+    if (l[0] != '+') {
+      oldText += text
+    }
+    if (l[0] != '-') {
+      newText += text
+    }
+  }
+  // an empty old range starts after oldStart
+  let start = hunk.oldLines == 0 ? hunk.oldStart : hunk.oldStart - 1
+  return { start, end: start + hunk.oldLines, oldText, newText }
+}
+
+export interface LineChange {
+  // zero based, end exclusive
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+export interface TextChange {
+  // offsets of the old text
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * split text into lines, every line keeps its line ending
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+// more changed lines are replaced as a whole, eg: all the line endings changed, finding fewer lines takes too long
+const maxChangedLines = 2000
+
+/**
+ * the middle of the shortest edit script of a[aStart, aEnd) and b[bStart, bEnd), searched from both ends at once,
+ * so only two arrays of the diagonals are kept. null if the lines have nothing in common, or too many lines changed.
+ */
+function bisect(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): [number, number] | null {
+  const n = aEnd - aStart
+  const m = bEnd - bStart
+  const maxD = Math.min(Math.ceil((n + m) / 2), maxChangedLines / 2)
+  const offset = maxD
+  const length = 2 * maxD + 2
+  // the furthest x on each diagonal k = x - y, from the start and from the end
+  const forward = new Int32Array(length).fill(-1)
+  const backward = new Int32Array(length).fill(-1)
+  forward[offset + 1] = 0
+  backward[offset + 1] = 0
+  const delta = n - m
+  // the paths meet in a forward step if delta is odd
+  const front = delta % 2 != 0
+  // the diagonals which left the grid are skipped
+  let k1Start = 0
+  let k1End = 0
+  let k2Start = 0
+  let k2End = 0
+  for (let d = 0; d < maxD; d++) {
+    for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2) {
+      const k1Offset = offset + k1
+      let x1 = k1 == -d || (k1 != d && forward[k1Offset - 1] < forward[k1Offset + 1]) ? forward[k1Offset + 1] : forward[k1Offset - 1] + 1
+      let y1 = x1 - k1
+      while (x1 < n && y1 < m && a[aStart + x1] == b[bStart + y1]) {
+        x1++
+        y1++
+      }
+      forward[k1Offset] = x1
+      if (x1 > n) {
+        k1End += 2
+      } else if (y1 > m) {
+        k1Start += 2
+      } else if (front) {
+        const k2Offset = offset + delta - k1
+        if (k2Offset >= 0 && k2Offset < length && backward[k2Offset] != -1 && x1 >= n - backward[k2Offset]) {
+          return [x1, y1]
+        }
+      }
+    }
+    for (let k2 = -d + k2Start; k2 <= d - k2End; k2 += 2) {
+      const k2Offset = offset + k2
+      let x2 = k2 == -d || (k2 != d && backward[k2Offset - 1] < backward[k2Offset + 1]) ? backward[k2Offset + 1] : backward[k2Offset - 1] + 1
+      let y2 = x2 - k2
+      while (x2 < n && y2 < m && a[aEnd - 1 - x2] == b[bEnd - 1 - y2]) {
+        x2++
+        y2++
+      }
+      backward[k2Offset] = x2
+      if (x2 > n) {
+        k2End += 2
+      } else if (y2 > m) {
+        k2Start += 2
+      } else if (!front) {
+        const k1Offset = offset + delta - k2
+        if (k1Offset >= 0 && k1Offset < length && forward[k1Offset] != -1) {
+          const x1 = forward[k1Offset]
+          if (x1 >= n - x2) {
+            return [x1, x1 - (k1Offset - offset)]
+          }
+        }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * mark the deleted lines of a[aStart, aEnd) and the inserted lines of b[bStart, bEnd)
+ */
+function diffRange(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, deleted: Uint8Array, inserted: Uint8Array) {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] == b[bStart]) {
+    aStart++
+    bStart++
+  }
+  while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] == b[bEnd - 1]) {
+    aEnd--
+    bEnd--
+  }
+  const split = aStart < aEnd && bStart < bEnd ? bisect(a, aStart, aEnd, b, bStart, bEnd) : null
+  if (split == null) {
+    deleted.fill(1, aStart, aEnd)
+    inserted.fill(1, bStart, bEnd)
+    return
+  }
+  diffRange(a, aStart, aStart + split[0], b, bStart, bStart + split[1], deleted, inserted)
+  diffRange(a, aStart + split[0], aEnd, b, bStart + split[1], bEnd, deleted, inserted)
+}
+
+/**
+ * Myers' diff of two line arrays, in linear space: the middle of the edit script is found first, then both halves
+ */
+export function diffLines(a: string[], b: string[]): LineChange[] {
+  const deleted = new Uint8Array(a.length)
+  const inserted = new Uint8Array(b.length)
+  diffRange(a, 0, a.length, b, 0, b.length, deleted, inserted)
+
+  const changes: LineChange[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if ((i < a.length && deleted[i]) || (j < b.length && inserted[j])) {
+      const change = { oldStart: i, oldEnd: 0, newStart: j, newEnd: 0 }
+      while ((i < a.length && deleted[i]) || (j < b.length && inserted[j])) {
+        if (i < a.length && deleted[i]) {
+          i++
+        } else {
+          j++
+        }
+      }
+      change.oldEnd = i
+      change.newEnd = j
+      changes.push(change)
+    } else {
+      i++
+      j++
+    }
+  }
+  return changes
+}
+
+/**
+ * the offset of every line, and of the end of the text
+ */
+export function getLineOffsets(lines: string[]): number[] {
+  const offsets = [0]
+  for (let line of lines) {
+    offsets.push(offsets[offsets.length - 1] + line.length)
+  }
+  return offsets
+}
+
+export function toTextChange(oldOffsets: number[], newLines: string[], change: LineChange): TextChange {
+  return {
+    start: oldOffsets[change.oldStart],
+    end: oldOffsets[change.oldEnd],
+    text: newLines.slice(change.newStart, change.newEnd).join(''),
+  }
+}
+
+/**
+ * shrink a change to the characters that really change, never splitting a \r\n
+ */
+export function trimTextChange(oldText: string, change: TextChange): TextChange {
+  let { start, end, text } = change
+  let max = Math.min(end - start, text.length)
+  let prefix = 0
+  while (prefix < max && oldText[start + prefix] == text[prefix]) {
+    prefix++
+  }
+  if (prefix > 0 && oldText[start + prefix - 1] == '\r' && oldText[start + prefix] == '\n') {
+    prefix--
+  }
+  let suffix = 0
+  while (suffix < max - prefix && oldText[end - 1 - suffix] == text[text.length - 1 - suffix]) {
+    suffix++
+  }
+  if (suffix > 0 && oldText[end - suffix - 1] == '\r' && oldText[end - suffix] == '\n') {
+    suffix--
+  }
+  return { start: start + prefix, end: end - suffix, text: text.slice(prefix, text.length - suffix) }
+}
+
+/**
+ * the minimal changes turning oldText into newText: the lines are diffed first, then the characters of the changed
+ * lines, so the unchanged lines keep their cursors, folding and breakpoints.
+ */
+export function computeTextChanges(oldText: string, newText: string): TextChange[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+  const offsets = getLineOffsets(oldLines)
+  const changes: TextChange[] = []
+  for (let c of diffLines(oldLines, newLines)) {
+    if (c.oldEnd - c.oldStart == c.newEnd - c.newStart) {
+      // changed line by line
+      for (let i = 0; i < c.oldEnd - c.oldStart; i++) {
+        changes.push(trimTextChange(oldText, { start: offsets[c.oldStart + i], end: offsets[c.oldStart + i + 1], text: newLines[c.newStart + i] }))
+      }
+    } else {
+      changes.push(trimTextChange(oldText, toTextChange(offsets, newLines, c)))
+    }
+  }
+  return changes
+}
+
+/**
+ * apply a unified diff to the text it was made from, throws if the diff doesn't match the text
+ */
+export function applyUnifiedDiff(text: string, diff: string): string {
+  const lines = splitLines(text)
+  const replacements = parseUnifiedDiff(diff).map(getHunkReplacement)
+  for (let i = replacements.length - 1; i >= 0; i--) {
+    const r = replacements[i]
+    if (lines.slice(r.start, r.end).join('') != r.oldText) {
+      throw new Error(`diff doesn't match the text at line ${r.start + 1}`)
+    }
+    lines.splice(r.start, r.end - r.start, r.newText)
+  }
+  return lines.join('')
+}
+
+/**
+ * move changes of a text onto the text after the other changes were made to it, both in offsets of the original text.
+ * null if a change overlaps with an other change, then they can't both be applied.
+ */
+export function rebaseTextChanges(changes: TextChange[], otherChanges: TextChange[]): TextChange[] {
+  const rebased: TextChange[] = []
+  for (let c of changes) {
+    let delta = 0
+    for (let o of otherChanges) {
+      // two insertions at the same offset overlap too, their order is unknown
+      if ((o.start < c.end && c.start < o.end) || o.start == c.start) {
+        return null
+      }
+      if (o.end <= c.start) {
+        delta += o.text.length - (o.end - o.start)
+      }
+    }
+    rebased.push({ start: c.start + delta, end: c.end + delta, text: c.text })
+  }
+  return rebased
+}
@@ -0,0 +1,62 @@
+import * as path from 'path'
+
+export interface PathMapping {
+  host: string
+  container: string
+}
+
+export interface DockerSettings {
+  command: string
+  container: string
+  service: string
+  composeFile: string
+  pathMappings: PathMapping[]
+}
+
+/**
+ * translate a host path into the container, the longest matching host path wins,
+ * paths outside of all mappings are supposed to have the same path in the container
+ */
+export function toContainerPath(hostPath: string, mappings: PathMapping[]): string {
+  if (!path.isAbsolute(hostPath)) {
+    return hostPath
+  }
+
+  let mapping: PathMapping = null
+  for (let m of mappings) {
+    let relative = path.relative(m.host, hostPath)
+    if (!relative.startsWith('..') && !path.isAbsolute(relative) && (mapping == null || m.host.length > mapping.host.length)) {
+      mapping = m
+    }
+  }
+  if (mapping == null) {
+    return hostPath
+  }
+
+  let relative = path.relative(mapping.host, hostPath).split(path.sep).join('/')
+  return path.posix.join(mapping.container, relative)
+}
+
+/**
+ * wrap a command to run with `docker exec` in a running container, or with `docker compose run` in a new container of a service
+ * @param cwd the working directory in the container
+ */
+export function wrapDockerCommand(runIn: 'docker' | 'dockerCompose', docker: DockerSettings, command: string, args: string[], cwd: string, env: { [key: string]: string }): { command: string; args: string[] } {
+  let envArgs = []
+  for (let key in env) {
+    envArgs.push('-e', key + '=' + env[key])
+  }
+  let cwdArgs = cwd ? ['-w', cwd] : []
+
+  if (runIn == 'dockerCompose') {
+    let composeArgs = docker.composeFile ? ['-f', docker.composeFile] : []
+    return {
+      command: docker.command,
+      args: ['compose', ...composeArgs, 'run', '--rm', '-T', ...cwdArgs, ...envArgs, docker.service, command, ...args],
+    }
+  }
+  return {
+    command: docker.command,
+    args: ['exec', '-i', ...cwdArgs, ...envArgs, docker.container, command, ...args],
+  }
+}
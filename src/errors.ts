@@ -0,0 +1,76 @@
+export interface FixerError {
+  kind: 'lint' | 'fixing' | 'config' | 'fatal' | 'general'
+  // a short reason for the status bar
+  message: string
+  // the output of php-cs-fixer
+  details: string
+  // zero based line of the fixed code, for syntax errors of the code
+  line?: number
+}
+
+const exitCodeMessages = {
+  1: 'General error (or PHP minimal requirement not matched).',
+  16: 'Configuration error of the application.', //  The path "/file/path.php" is not readable
+  32: 'Configuration error of a Fixer.',
+  64: 'Exception raised within the application.',
+  255: 'PHP Fatal error, click to show output.',
+}
+
+/**
+ * whether php-cs-fixer skipped the code because of a syntax error or an exception, it still exits with 0 when not in dry-run mode
+ */
+export function hasFileErrors(stderr: string): boolean {
+  return /Files that were not fixed due to errors/i.test(stderr || '')
+}
+
+/**
+ * the message of a console error block, eg:
+ *
+ *   In FixerFactory.php line 123:
+ *
+ *     [PhpCsFixer\ConfigurationException\InvalidConfigurationException]
+ *     The rules contain unknown fixers: "foo".
+ */
+function parseErrorBlock(output: string): string {
+  let lines = output
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => !/^In \S+ line \d+:$/.test(l) && !/^\[[\w\\]+\]$/.test(l))
+  let start = lines.findIndex((l) => l != '')
+  if (start == -1) {
+    return ''
+  }
+  let end = lines.indexOf('', start)
+  return lines.slice(start, end == -1 ? undefined : end).join(' ')
+}
+
+/**
+ * the error reported by php-cs-fixer, from the error list in verbose mode, the console error block, or the exit code
+ */
+export function parseFixerError(stderr: string, stdout: string, exitCode: number = 0): FixerError {
+  stderr = stderr || ''
+  stdout = stdout || ''
+  const details = [stderr, stdout].filter(Boolean).join('\n')
+
+  // 1) /path/file.php
+  //    [PhpCsFixer\Linter\LintingException] Parse error: syntax error, unexpected '}' on line 42.
+  let ms = stderr.match(/\[[\w\\]*LintingException\]\s*([^\r\n]+)/) || stderr.match(/((?:PHP )?Parse error:[^\r\n]+)/)
+  if (ms != null && (hasFileErrors(stderr) || exitCode == 4)) {
+    const line = ms[1].match(/on line (\d+)/)
+    return { kind: 'lint', message: ms[1].trim(), details, line: line ? parseInt(line[1]) - 1 : undefined }
+  }
+  if (hasFileErrors(stderr)) {
+    ms = stderr.match(/\[([\w\\]+)\]\s*([^\r\n]+)/)
+    const message = ms ? ms[1].replace(/^.*\\/, '') + ': ' + ms[2].trim() : stderr.split(/\r?\n/).filter(Boolean)[1]?.trim() || 'the code could not be fixed'
+    return { kind: 'fixing', message, details }
+  }
+
+  ms = details.match(/PHP (?:Fatal|Parse) error:\s*(?:Uncaught \w+:\s*)?([^\r\n]+)/)
+  if (ms != null) {
+    return { kind: 'fatal', message: ms[1].replace(/ in \S+(?::| on line )\d+.*$/, '').trim(), details }
+  }
+  if (exitCode == 16 || exitCode == 32 || exitCode == 64) {
+    return { kind: 'config', message: parseErrorBlock(stderr) || exitCodeMessages[exitCode], details }
+  }
+  return { kind: 'general', message: (exitCode == 1 && stdout.trim()) || exitCodeMessages[exitCode] || 'failed', details }
+}
@@ -1,11 +1,17 @@
+import { DockerSettings } from './docker'
+
 export class PHPCSFixerConfig {
   onsave: boolean
+  onsaveMode: 'file' | 'modifications'
   autoFixByBracket: boolean
   autoFixBySemicolon: boolean
+  autoFixByNewline: boolean
   executablePath: string
+  composerDetected: boolean
   rules: string | Object
   config: string
   formatHtml: boolean
+  safetyCheck: 'off' | 'parse' | 'tokens'
   documentFormattingProvider: boolean
   allowRisky: boolean
   pathMode: 'pathMode' | 'override'
@@ -16,4 +22,11 @@ export class PHPCSFixerConfig {
   // fileAutoSave: boolean
   // fileAutoSaveDelay: number
   tmpDir: string
+  timeout: number
+  cache: 'off' | 'memory' | 'disk'
+  diagnostics: boolean
+  worker: boolean
+  previewFolderFix: boolean
+  runIn: 'local' | 'docker' | 'dockerCompose'
+  docker: DockerSettings
 }
@@ -4,59 +4,157 @@ import { SpawnOptionsWithoutStdio } from 'child_process'
 import * as fs from 'fs'
 import * as os from 'os'
 import * as path from 'path'
-import { commands, ExtensionContext, FormattingOptions, languages, Position, Range, TextDocument, TextDocumentChangeEvent, TextEdit, Uri, window, workspace, WorkspaceFolder } from 'vscode'
-import { beautify } from './beautifyHtml'
+import { CancellationToken, CodeAction, CodeActionContext, CodeActionKind, commands, ConfigurationTarget, Disposable, ExtensionContext, FormattingOptions, languages, Position, ProgressLocation, Range, RelativePattern, TextDocument, TextEdit, Uri, window, workspace, WorkspaceEdit, WorkspaceFolder } from 'vscode'
+import { expandToStatements, findBracketFragment } from './autoFix'
+import { beautify, setEmbeddedFormatter } from './beautifyHtml'
+import { clearCache, getCached, hash, initDiskCache, setCached } from './cache'
+import { generateConfig, generateRulesConfig } from './configFile'
+import { clearDiagnostics, clearErrorDiagnostics, disposeDiagnostics, FixerFileResult, removeDiagnostics, showErrorDiagnostic, updateDiagnostics } from './diagnostics'
+import { applyUnifiedDiff, computeTextChanges, diffLines, getHunkReplacement, getLineOffsets, parseUnifiedDiff, rebaseTextChanges, splitLines, TextChange, toTextChange, trimTextChange } from './diff'
+import { toContainerPath, wrapDockerCommand } from './docker'
+import { hasFileErrors, parseFixerError } from './errors'
 import { PHPCSFixerConfig } from './index.d'
-import { clearOutput, disposeOutput, hideStatusBar, output, showOutput, statusInfo } from './output'
+import { disposeOutput, hideStatusBar, hideVersionInfo, logger, LogLevel, setLogLevel, showOutput, statusInfo, versionInfo } from './output'
+import { cancelJobs, hasJob, runJob } from './jobs'
+import { FixReportProvider, ReportFile } from './report'
+import { parseRules, RuleCatalog, RuleExplorerProvider, toggleRule, validateRules } from './rules'
+import { RulesSchemaProvider } from './rulesSchema'
 import { runAsync } from './runAsync'
+import { checkFormatted } from './safety'
+import { runInWorker, stopWorker } from './worker'
 const TmpDir = os.tmpdir()
 const HomeDir = os.homedir()
-let isRunning = false
 let lastActiveEditor = null
 
+interface DocumentSnapshot {
+  version: number
+  text: string
+}
+
 class PHPCSFixer extends PHPCSFixerConfig {
+  private settings = new Map<string, PHPCSFixerConfig>()
+  private versions = new Map<string, Promise<string>>()
+  private rulesProblems = ''
+  ruleCatalog = new RuleCatalog((args) => this.runCommand(this.getRuleExplorerUri(), args))
+
   constructor() {
     super()
     this.loadSettings()
+    this.updateRuleCatalog().then(() => this.validateRules())
     this.checkUpdate()
   }
 
   loadSettings() {
-    const config = workspace.getConfiguration('php-cs-fixer')
-    this.onsave = config.get('onsave', false)
-    this.autoFixByBracket = config.get('autoFixByBracket', true)
-    this.autoFixBySemicolon = config.get('autoFixBySemicolon', false)
-    this.executablePath = config.get('executablePath', process.platform === 'win32' ? 'php-cs-fixer.bat' : 'php-cs-fixer')
+    this.settings.clear()
+    this.versions.clear()
+    Object.assign(this, this.readSettings(null))
+    this.editorFormatOnSave = workspace.getConfiguration('editor').get('formatOnSave')
+    setLogLevel(workspace.getConfiguration('php-cs-fixer').get<LogLevel>('logLevel', 'info'))
+    // this.fileAutoSave = workspace.getConfiguration('files').get('autoSave')
+    // this.fileAutoSaveDelay = workspace.getConfiguration('files').get('autoSaveDelay', 1000)
+  }
+
+  /**
+   * Reads the settings of a resource, folder settings of a multi-root
+   * workspace override the workspace and user settings.
+   */
+  readSettings(uri: Uri | null): PHPCSFixerConfig {
+    const config = workspace.getConfiguration('php-cs-fixer', uri)
+    const settings = new PHPCSFixerConfig()
+    settings.onsave = config.get('onsave', false)
+    settings.onsaveMode = config.get('onsaveMode', 'file')
+    settings.autoFixByBracket = config.get('autoFixByBracket', true)
+    settings.autoFixBySemicolon = config.get('autoFixBySemicolon', false)
+    settings.autoFixByNewline = config.get('autoFixByNewline', false)
+    settings.executablePath = config.get('executablePath', process.platform === 'win32' ? 'php-cs-fixer.bat' : 'php-cs-fixer')
     if (process.platform == 'win32' && config.get('executablePathWindows', '').length > 0) {
-      this.executablePath = config.get('executablePathWindows')
-    }
-    this.executablePath = this.resolveVscodeExpressions(this.executablePath)
-    this.rules = config.get('rules', '@PSR12')
-    if (typeof this.rules == 'object') {
-      this.rules = JSON.stringify(this.rules)
-    }
-    this.config = config.get('config', '.php-cs-fixer.php;.php-cs-fixer.dist.php;.php_cs;.php_cs.dist')
-    this.formatHtml = config.get('formatHtml', false)
-    this.documentFormattingProvider = config.get('documentFormattingProvider', true)
-    this.allowRisky = config.get('allowRisky', false)
-    this.pathMode = config.get('pathMode', 'override')
-    this.ignorePHPVersion = config.get('ignorePHPVersion', false)
-    this.exclude = config.get('exclude', [])
-    this.tmpDir = config.get('tmpDir', '')
-
-    if (this.executablePath.endsWith('.phar')) {
-      this.pharPath = this.executablePath.replace(/^php[^ ]* /i, '')
-      this.executablePath = workspace.getConfiguration('php').get('validate.executablePath', 'php')
-      if (!this.executablePath) {
-        this.executablePath = 'php'
+      settings.executablePath = config.get('executablePathWindows')
+    }
+    settings.executablePath = this.resolveVscodeExpressions(settings.executablePath, { uri })
+    settings.composerDetected = false
+    if (uri != null && config.get('detectComposer', true)) {
+      const detected = this.detectComposerExecutable(uri)
+      if (detected != null) {
+        settings.executablePath = detected
+        settings.composerDetected = true
+      }
+    }
+    settings.rules = config.get('rules', '@PSR12')
+    if (typeof settings.rules == 'object') {
+      settings.rules = JSON.stringify(settings.rules)
+    }
+    settings.config = config.get('config', '.php-cs-fixer.php;.php-cs-fixer.dist.php;.php_cs;.php_cs.dist')
+    settings.formatHtml = config.get('formatHtml', false)
+    settings.safetyCheck = config.get('safetyCheck', 'off')
+    settings.documentFormattingProvider = config.get('documentFormattingProvider', true)
+    settings.allowRisky = config.get('allowRisky', false)
+    settings.pathMode = config.get('pathMode', 'override')
+    settings.ignorePHPVersion = config.get('ignorePHPVersion', false)
+    settings.exclude = config.get('exclude', [])
+    settings.tmpDir = config.get('tmpDir', '')
+    settings.timeout = config.get('timeout', 30000)
+    settings.cache = config.get('cache', 'memory')
+    settings.diagnostics = config.get('diagnostics', false)
+    settings.worker = config.get('worker', false)
+    settings.previewFolderFix = config.get('previewFolderFix', false)
+    settings.runIn = config.get('runIn', 'local')
+    settings.docker = {
+      command: config.get('docker.command', 'docker'),
+      container: config.get('docker.container', ''),
+      service: config.get('docker.service', ''),
+      composeFile: config.get('docker.composeFile', ''),
+      pathMappings: Object.entries(config.get('docker.pathMappings', {})).map(([host, container]) => ({ host: this.resolveVscodeExpressions(host, { uri }), container: container as string })),
+    }
+
+    if (settings.executablePath.endsWith('.phar')) {
+      settings.pharPath = settings.executablePath.replace(/^php[^ ]* /i, '')
+      settings.executablePath = workspace.getConfiguration('php').get('validate.executablePath', 'php')
+      // php.validate.executablePath is a host path
+      if (!settings.executablePath || settings.runIn != 'local') {
+        settings.executablePath = 'php'
       }
     } else {
-      this.pharPath = null
+      settings.pharPath = null
     }
 
-    this.editorFormatOnSave = workspace.getConfiguration('editor').get('formatOnSave')
-    // this.fileAutoSave = workspace.getConfiguration('files').get('autoSave')
-    // this.fileAutoSaveDelay = workspace.getConfiguration('files').get('autoSaveDelay', 1000)
+    return settings
+  }
+
+  /**
+   * Finds php-cs-fixer installed by composer in a workspace folder: in the
+   * `bin-dir` of composer.json, vendor/bin or tools/php-cs-fixer/vendor/bin.
+   */
+  detectComposerExecutable(folderUri: Uri): string | null {
+    if (folderUri.scheme != 'file') {
+      return null
+    }
+
+    const root = folderUri.fsPath
+    const binDirs = []
+    try {
+      const composer = JSON.parse(fs.readFileSync(path.join(root, 'composer.json'), 'utf-8'))
+      if (typeof composer?.config?.['bin-dir'] == 'string') {
+        binDirs.push(composer.config['bin-dir'])
+      }
+    } catch (err) {
+      // no composer.json
+    }
+    binDirs.push('vendor/bin', 'tools/php-cs-fixer/vendor/bin')
+
+    const name = process.platform == 'win32' ? 'php-cs-fixer.bat' : 'php-cs-fixer'
+    return binDirs.map((dir) => path.resolve(root, dir, name)).find((file) => fs.existsSync(file)) || null
+  }
+
+  /**
+   * Gets the settings for the given uri, cached per workspace folder.
+   */
+  getSettings(uri: Uri | null): PHPCSFixerConfig {
+    const folder = uri != null ? this.getActiveWorkspaceFolder(uri) : undefined
+    const key = folder?.uri.toString() || ''
+    if (!this.settings.has(key)) {
+      this.settings.set(key, this.readSettings(folder?.uri || null))
+    }
+    return this.settings.get(key)
   }
 
   /**
@@ -107,95 +205,500 @@ class PHPCSFixer extends PHPCSFixerConfig {
   }
 
   getRealExecutablePath(uri: Uri): string | undefined {
-    return this.resolveVscodeExpressions(this.executablePath, { uri })
+    return this.resolveVscodeExpressions(this.getSettings(uri).executablePath, { uri })
+  }
+
+  /**
+   * the php-cs-fixer used for the given uri, the executable and the phar if any
+   */
+  getExecutableKey(uri: Uri): string {
+    const settings = this.getSettings(uri)
+    return this.getRealExecutablePath(uri) + ' ' + (settings.pharPath != null ? this.resolveVscodeExpressions(settings.pharPath, { uri }) : '')
   }
 
-  getArgs(uri: Uri, filePath: string = null): string[] {
-    filePath = filePath || uri.fsPath
+  /**
+   * Gets the version of the php-cs-fixer used for the given uri, eg: 3.64.0
+   */
+  getVersion(uri: Uri): Promise<string> {
+    const key = this.getExecutableKey(uri)
+    if (!this.versions.has(key)) {
+      const version = this.runCommand(uri, ['--version']).then((stdout) => stdout?.match(/PHP CS Fixer (?:version )?v?(\d\S*)/i)?.[1] || 'unknown')
+      // don't remember failures, php-cs-fixer may be installed later
+      version.catch(() => this.versions.delete(key))
+      this.versions.set(key, version)
+    }
+    return this.versions.get(key)
+  }
 
-    let args = ['fix', '--using-cache=no', '--format=json']
-    if (this.pharPath != null) {
-      args.unshift(this.resolveVscodeExpressions(this.pharPath, { uri }))
+  /**
+   * run a php-cs-fixer command other than fix, eg: --version, describe, resolves stdout
+   */
+  runCommand(uri: Uri, args: string[]): Promise<string> {
+    const settings = this.getSettings(uri)
+    if (settings.pharPath != null) {
+      args = [this.resolveVscodeExpressions(settings.pharPath, { uri }), ...args]
+    }
+    const opts: SpawnOptionsWithoutStdio = {}
+    if (settings.ignorePHPVersion) {
+      opts.env = Object.create(process.env)
+      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
     }
-    let useConfig = false
-    if (this.config.length > 0) {
-      let rootUri = this.getActiveWorkspaceFolder(uri)?.uri
-      let configFiles = this.config
-        .split(';') // allow multiple files definitions semicolon separated values
-        .filter((file) => '' !== file) // do not include empty definitions
-        .map((file) => file.replace(/^~\//, os.homedir() + '/')) // replace ~/ with home dir
+    return this.runFixer(uri, args, opts).then(({ stdout }) => stdout)
+  }
 
-      // include also {workspace.rootUri}/.vscode/ & {workspace.rootUri}/
-      let searchUris = []
-      if (rootUri != null && rootUri.scheme === 'file') {
-        searchUris = [Uri.joinPath(rootUri, '.vscode'), rootUri]
+  /**
+   * show the php-cs-fixer version, the config in effect and whether the document is excluded in the status bar
+   */
+  showVersion(document: TextDocument) {
+    const settings = this.getSettings(document.uri)
+    const executablePath = settings.pharPath != null ? this.resolveVscodeExpressions(settings.pharPath, { uri: document.uri }) : this.getRealExecutablePath(document.uri)
+    const configFile = this.getConfigFile(document.uri)
+    const excluded = this.isExcluded(document)
+    const tooltip = [
+      (settings.composerDetected ? 'composer: ' : '') + executablePath,
+      configFile != null ? 'config: ' + configFile : 'rules: ' + settings.rules,
+      excluded ? 'the file is excluded by php-cs-fixer.exclude' : null,
+      'fix on save: ' + (settings.onsave ? 'on' : 'off'),
+      '',
+      'click for actions',
+    ]
+      .filter((line) => line != null)
+      .join('\n')
+    const label = ' · ' + this.getConfigLabel(document.uri) + (excluded ? ' (excluded)' : '')
+    const isActive = () => window.activeTextEditor?.document == document
+    this.getVersion(document.uri).then(
+      (version) => {
+        isActive() && versionInfo((excluded ? '$(circle-slash) ' : '$(check) ') + 'php-cs-fixer ' + version + (settings.composerDetected ? ' (composer)' : '') + label, tooltip)
+      },
+      () => {
+        isActive() && versionInfo('$(warning) php-cs-fixer: not found', tooltip)
       }
+    )
+  }
 
-      const files = []
-      for (const file of configFiles) {
-        if (path.isAbsolute(file)) {
-          files.push(file)
-        } else {
-          for (const searchUri of searchUris) {
-            files.push(Uri.joinPath(searchUri, file).fsPath)
+  /**
+   * the name of the config file used for uri, or the rule sets of the `rules` setting
+   */
+  getConfigLabel(uri: Uri): string {
+    const configFile = this.getConfigFile(uri)
+    if (configFile != null) {
+      return path.basename(configFile)
+    }
+    const rules = this.getRules(uri)
+    const sets = Object.keys(rules).filter((name) => name.startsWith('@') && rules[name] !== false)
+    return sets.length > 0 ? sets.join(', ') : 'rules'
+  }
+
+  /**
+   * the actions of the status bar item for the active php file
+   */
+  showActions() {
+    const editor = window.activeTextEditor
+    if (editor == undefined || editor.document.languageId != 'php') {
+      showOutput()
+      return
+    }
+    const uri = editor.document.uri
+    const configFile = this.getConfigFile(uri)
+    const actions = [
+      { label: this.getSettings(uri).onsave ? '$(circle-slash) Disable fix on save' : '$(check) Enable fix on save', run: () => this.toggleOnSave(uri) },
+      { label: '$(wand) Fix this file', run: () => commands.executeCommand('php-cs-fixer.fix') },
+      { label: '$(diff) Show diff', run: () => commands.executeCommand('php-cs-fixer.diff') },
+      configFile != null
+        ? { label: '$(gear) Open config file', description: configFile, run: () => window.showTextDocument(Uri.file(configFile)) }
+        : { label: '$(new-file) Create config file', description: 'from the settings', run: () => this.createConfig() },
+      { label: '$(output) Show output', run: () => showOutput() },
+    ]
+    window.showQuickPick(actions, { placeHolder: 'php-cs-fixer' }).then((action) => action?.run())
+  }
+
+  /**
+   * switch the `onsave` setting where it is defined, the user settings by default
+   */
+  toggleOnSave(uri: Uri) {
+    const config = workspace.getConfiguration('php-cs-fixer', uri)
+    const inspect = config.inspect('onsave')
+    const target =
+      inspect.workspaceFolderValue !== undefined ? ConfigurationTarget.WorkspaceFolder : inspect.workspaceValue !== undefined ? ConfigurationTarget.Workspace : ConfigurationTarget.Global
+    config.update('onsave', !this.getSettings(uri).onsave, target)
+  }
+
+  /**
+   * Gets the php-cs-fixer script the worker process can load, `null` if the
+   * executable is not a php script (eg: php-cs-fixer.bat).
+   */
+  getWorkerFixerPath(uri: Uri): string | null {
+    const settings = this.getSettings(uri)
+    if (settings.pharPath != null) {
+      return this.resolveVscodeExpressions(settings.pharPath, { uri })
+    }
+
+    let executablePath = this.getRealExecutablePath(uri)
+    if (/\.(bat|cmd|exe)$/i.test(executablePath)) {
+      return null
+    }
+    let candidates = path.isAbsolute(executablePath) ? [executablePath] : (process.env.PATH || '').split(path.delimiter).filter(Boolean).map((dir) => path.join(dir, executablePath))
+    return candidates.find((file) => fs.existsSync(file)) || null
+  }
+
+  /**
+   * run the php-cs-fixer executable, in a container when `runIn` is docker or dockerCompose
+   */
+  runFixer(uri: Uri, args: string[], opts: SpawnOptionsWithoutStdio, onData: (data: Buffer) => void = null, input: string = null, token: CancellationToken = null): Promise<any> {
+    const settings = this.getSettings(uri)
+    let command = this.getRealExecutablePath(uri)
+    if (settings.runIn == 'local') {
+      return this.killOnCancel(runAsync(command, args, opts, onData, input), token)
+    }
+
+    const mappings = settings.docker.pathMappings
+    if (path.isAbsolute(command)) {
+      command = toContainerPath(command, mappings)
+    }
+    const env = opts.env?.PHP_CS_FIXER_IGNORE_ENV ? { PHP_CS_FIXER_IGNORE_ENV: '1' } : {}
+    const cwd = opts.cwd ? toContainerPath(opts.cwd.toString(), mappings) : null
+    const docker = wrapDockerCommand(settings.runIn, settings.docker, command, args, cwd, env)
+    // docker compose looks for the compose file in the workspace folder
+    const folder = this.getActiveWorkspaceFolder(uri)
+    const dockerOpts: SpawnOptionsWithoutStdio = { cwd: folder?.uri.scheme == 'file' ? folder.uri.fsPath : opts.cwd }
+    return this.killOnCancel(runAsync(docker.command, docker.args, dockerOpts, onData, input), token)
+  }
+
+  /**
+   * kill the php-cs-fixer process when the token is cancelled
+   */
+  killOnCancel(promise: Promise<any>, token: CancellationToken): Promise<any> {
+    if (token != null) {
+      const listener = token.onCancellationRequested(() => (promise as any).cp?.kill())
+      promise.then(() => listener.dispose(), () => listener.dispose())
+    }
+    return promise
+  }
+
+  /**
+   * run php-cs-fixer, in the worker process when it's enabled
+   */
+  run(uri: Uri, args: string[], opts: SpawnOptionsWithoutStdio, input: string = null, token: CancellationToken = null): Promise<any> {
+    const settings = this.getSettings(uri)
+    const command = this.getRealExecutablePath(uri)
+    // the worker reads its requests from stdin
+    const fixerPath = settings.worker && settings.runIn == 'local' && input == null ? this.getWorkerFixerPath(uri) : null
+    if (fixerPath == null) {
+      return this.runFixer(uri, args, opts, null, input, token)
+    }
+
+    // only if the worker died on its own, a cancelled request is not run again
+    const fallback = () => this.killOnCancel(runAsync(command, args, opts), token)
+    if (settings.pharPath != null) {
+      // args[0] is the phar path
+      return runInWorker(command, fixerPath, args.slice(1), opts, token, fallback)
+    }
+    const php = workspace.getConfiguration('php').get('validate.executablePath', 'php') || 'php'
+    return runInWorker(php, fixerPath, args, opts, token, fallback)
+  }
+
+  /**
+   * write a config file running only the given rules with the options of configFile, null if it can't be written.
+   * its name depends on the rules, so there is one file per rule and config file, which is reused.
+   */
+  writeRulesConfig(uri: Uri, configFile: string, rules: string): string | null {
+    const settings = this.getSettings(uri)
+    // a container only sees tmpDir
+    const dir = settings.runIn == 'local' ? settings.tmpDir || TmpDir : settings.tmpDir
+    if (!dir) {
+      logger.warn('tmpDir is not set, the rules are run with their default options')
+      return null
+    }
+    const toRunnerPath = (p: string) => (settings.runIn == 'local' ? p : toContainerPath(p, settings.docker.pathMappings))
+    try {
+      const filePath = path.join(dir, 'pcf-rules-' + hash(configFile, rules).slice(0, 16) + '.php')
+      fs.writeFileSync(filePath, generateRulesConfig(toRunnerPath(configFile), parseRules(rules)))
+      return filePath
+    } catch (err) {
+      logger.warn('rules config: ' + err.message)
+      return null
+    }
+  }
+
+  /**
+   * the config file used for uri, the nearest one of the folders between the file and the workspace folder wins
+   */
+  getConfigFile(uri: Uri): string | null {
+    const settings = this.getSettings(uri)
+    if (settings.config.length == 0) {
+      return null
+    }
+    let rootUri = this.getActiveWorkspaceFolder(uri)?.uri
+    let configFiles = settings.config
+      .split(';') // allow multiple files definitions semicolon separated values
+      .filter((file) => '' !== file) // do not include empty definitions
+      .map((file) => file.replace(/^~\//, os.homedir() + '/')) // replace ~/ with home dir
+
+    // include also {workspace.rootUri}/.vscode/ & {workspace.rootUri}/
+    let searchUris = []
+    if (rootUri != null && rootUri.scheme === 'file') {
+      searchUris = [Uri.joinPath(rootUri, '.vscode'), rootUri]
+    }
+
+    const files = []
+    // the folders between the file and {workspace.rootUri} first, the nearest config file wins
+    if (searchUris.length > 0 && uri.scheme == 'file') {
+      let dir = fs.existsSync(uri.fsPath) && fs.statSync(uri.fsPath).isDirectory() ? uri.fsPath : path.dirname(uri.fsPath)
+      let relative = path.relative(rootUri.fsPath, dir)
+      while (relative != '' && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        for (const file of configFiles) {
+          if (!path.isAbsolute(file)) {
+            files.push(path.join(dir, file))
           }
         }
+        dir = path.dirname(dir)
+        relative = path.relative(rootUri.fsPath, dir)
       }
-
-      for (let i = 0, len = files.length; i < len; i++) {
-        let c = files[i]
-        if (fs.existsSync(c)) {
-          if (process.platform == 'win32') {
-            args.push('--config="' + c.replace(/"/g, "\\\"") + '"')
-          } else {
-            args.push('--config=' + c)
-          }
-          useConfig = true
-          break
+    }
+    for (const file of configFiles) {
+      if (path.isAbsolute(file)) {
+        files.push(file)
+      } else {
+        for (const searchUri of searchUris) {
+          files.push(Uri.joinPath(searchUri, file).fsPath)
         }
       }
     }
-    if (!useConfig && this.rules) {
+
+    return files.find((file) => fs.existsSync(file)) || null
+  }
+
+  /**
+   * @param rules overrides the rules of the settings and of the config file, with a config file they keep its options.
+   */
+  getArgs(uri: Uri, filePath: string | string[] = null, extraArgs: string[] = [], rules: string = null): string[] {
+    const settings = this.getSettings(uri)
+    const filePaths: string[] = [].concat(filePath || uri.fsPath)
+    // the paths php-cs-fixer sees, in a container they are translated by the path mappings
+    const toRunnerPath = (p: string) => (settings.runIn == 'local' ? p : toContainerPath(p, settings.docker.pathMappings))
+
+    let args = ['fix', '--using-cache=no', '--format=json', ...extraArgs]
+    if (settings.pharPath != null) {
+      args.unshift(toRunnerPath(this.resolveVscodeExpressions(settings.pharPath, { uri })))
+    }
+    let configFile = this.getConfigFile(uri)
+    const useConfig = configFile != null
+    if (useConfig && rules) {
+      // --rules would replace the rules of the config file with their default options
+      const rulesConfig = this.writeRulesConfig(uri, configFile, rules)
+      if (rulesConfig != null) {
+        configFile = rulesConfig
+        rules = null
+      }
+    }
+    if (useConfig) {
+      let c = toRunnerPath(configFile)
+      if (process.platform == 'win32') {
+        args.push('--config="' + c.replace(/"/g, "\\\"") + '"')
+      } else {
+        args.push('--config=' + c)
+      }
+    }
+    if (rules == null && !useConfig) {
+      rules = settings.rules as string
+    }
+    if (rules) {
       if (process.platform == 'win32') {
-        args.push('--rules="' + (this.rules as string).replace(/"/g, "\\\"") + '"')
+        args.push('--rules="' + rules.replace(/"/g, "\\\"") + '"')
       } else {
-        args.push('--rules=' + this.rules)
+        args.push('--rules=' + rules)
       }
     }
-    if (this.allowRisky) {
+    if (settings.allowRisky) {
       args.push('--allow-risky=yes')
     }
 
-    if (filePath.startsWith(TmpDir)) {
+    if (filePaths[0] == '-' || filePaths[0].startsWith(TmpDir) || /[\\/]pcf-tmp/.test(filePaths[0])) {
       args.push('--path-mode=override')
+    } else if (Array.isArray(filePath) && useConfig) {
+      // a list of files, eg: the workspace fix, must not fix the paths the Finder of the config file excludes
+      args.push('--path-mode=intersection')
     } else {
-      args.push('--path-mode=' + this.pathMode)
+      args.push('--path-mode=' + settings.pathMode)
     }
-    args.push(filePath)
+    args.push(...filePaths.map(toRunnerPath))
 
     return args
   }
 
-  format(text: string | Buffer, uri: Uri, isDiff: boolean = false, isPartial: boolean = false): Promise<string> {
-    isRunning = true
-    clearOutput()
+  /**
+   * format the text as the content of uri, a newer request for the same document cancels this one,
+   * the same request joins the running one.
+   */
+  format(text: string | Buffer, uri: Uri, isDiff: boolean = false, isPartial: boolean = false, rules: string = null, token: CancellationToken = null): Promise<string> {
     isPartial || statusInfo('formatting')
 
+    const settings = this.getSettings(uri)
+    const key = uri.toString() + (isDiff ? '#diff' : isPartial ? '#partial' : '#format')
+    return new Promise((resolve, reject) => {
+      runJob(key, text.toString() + '\n' + rules, settings.timeout, token, (token) =>
+        // the diff command needs the fixed file
+        (isDiff ? Promise.resolve(null) : this.getCacheKey(text.toString(), uri, isPartial, rules)).then((cacheKey) => {
+          const cached = cacheKey != null ? getCached(cacheKey, settings.cache == 'disk') : undefined
+          if (cached !== undefined) {
+            logger.debug('cache: hit ' + cacheKey)
+            return cached
+          }
+          return (isDiff ? Promise.resolve(false) : this.supportsStdin(uri))
+            .then((stdin) => (stdin ? this.formatStdin(text.toString(), uri, isPartial, rules, token) : this.formatFile(text, uri, isDiff, isPartial, rules, token)))
+            .then((result) => {
+              cacheKey != null && setCached(cacheKey, result, settings.cache == 'disk')
+              return result
+            })
+        })
+      )
+        .then((result) => {
+          resolve(result)
+          hideStatusBar()
+          if (!isPartial && this.findDocument(uri, text.toString()) != undefined) {
+            clearErrorDiagnostics(uri)
+          }
+        })
+        .catch((err) => {
+          reject(err)
+          if (err == undefined) {
+            return
+          }
+          if (err.code == 'CANCELLED') {
+            // the newer request shows its own status
+            isPartial || hasJob(uri.toString()) || hideStatusBar()
+            return
+          }
+          if (err.code == 'TIMEOUT') {
+            logger.warn(err.message)
+            isPartial || statusInfo('timed out, see the timeout setting')
+            // a hung worker blocks all the requests after it
+            stopWorker()
+            return
+          }
+          // a fragment of the code being typed may not be fixable, it's not worth an error
+          isPartial ? logger.debug(err.stderr || err.message) : logger.error(err.stderr || err.message)
+          if (err.code == 'ENOENT') {
+            isPartial || statusInfo('failed')
+            this.errorTip()
+            return
+          }
+
+          const error = parseFixerError(err.stderr, err.stdout, err.exitCode)
+          isPartial || statusInfo(error.message, error.details)
+          // the line is only known if the whole document was formatted
+          const document = isPartial ? undefined : this.findDocument(uri, text.toString())
+          if (document != undefined && error.kind == 'lint' && error.line != undefined) {
+            showErrorDiagnostic(document, error)
+          }
+        })
+    })
+  }
+
+  /**
+   * the open document of uri, if its content is text
+   */
+  findDocument(uri: Uri, text: string): TextDocument | undefined {
+    return workspace.textDocuments.find((d) => d.uri.toString() == uri.toString() && d.getText() == text)
+  }
+
+  /**
+   * the result of php-cs-fixer only depends on the code, the file name, the config file, the rules, allowRisky and the
+   * php-cs-fixer version. null if the cache is off or the version is unknown.
+   */
+  getCacheKey(text: string, uri: Uri, isPartial: boolean, rules: string): Promise<string> {
+    const settings = this.getSettings(uri)
+    if (settings.cache == 'off') {
+      return Promise.resolve(null)
+    }
+    let config = ''
+    const configFile = this.getConfigFile(uri)
+    if (configFile != null) {
+      try {
+        config = configFile + '\n' + fs.statSync(configFile).mtimeMs + '\n' + fs.readFileSync(configFile, 'utf-8')
+      } catch (err) {
+        return Promise.resolve(null)
+      }
+    }
+    return this.getVersion(uri).then(
+      (version) => hash(text, uri.fsPath, String(isPartial), config, rules ?? '', settings.rules as string, String(settings.allowRisky), this.getRealExecutablePath(uri), version),
+      () => null
+    )
+  }
+
+  /**
+   * php-cs-fixer reads the code from stdin since v3, except in the worker whose stdin carries the requests
+   */
+  supportsStdin(uri: Uri): Promise<boolean> {
+    const settings = this.getSettings(uri)
+    if (settings.worker && settings.runIn == 'local' && this.getWorkerFixerPath(uri) != null) {
+      return Promise.resolve(false)
+    }
+    return this.getVersion(uri).then(
+      (version) => parseInt(version) >= 3,
+      () => false
+    )
+  }
+
+  /**
+   * pipe the code to `php-cs-fixer fix -`, which is always a dry-run, and apply the diff it prints.
+   * the config file is still searched from the real file, and cwd is the folder of the real file.
+   */
+  formatStdin(text: string, uri: Uri, isPartial: boolean, rules: string, token: CancellationToken): Promise<string> {
+    const settings = this.getSettings(uri)
+    // -v: the errors of the code are reported in details
+    const args = this.getArgs(uri, '-', ['--dry-run', '--diff', '-v'], rules)
+    const opts: SpawnOptionsWithoutStdio = {}
+    if (uri.scheme == 'file') {
+      opts.cwd = path.dirname(uri.fsPath)
+    }
+    if (settings.ignorePHPVersion) {
+      opts.env = Object.create(process.env)
+      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
+    }
+
+    return this.run(uri, args, opts, text, token)
+      .catch((err) => this.acceptDryRun(err))
+      .then(({ stdout, stderr }) => {
+        let result = JSON.parse(stdout)
+        let diff = result?.files?.[0]?.diff
+        if (!diff) {
+          return this.unchangedResult(text, stdout, stderr)
+        }
+        try {
+          return applyUnifiedDiff(text, diff)
+        } catch (err) {
+          // eg: the line endings of the diff differ from the code
+          logger.warn('stdin: ' + err.message + ', fallback to tmp file')
+          return this.formatFile(text, uri, false, isPartial, rules, token)
+        }
+      })
+  }
+
+  formatFile(text: string | Buffer, uri: Uri, isDiff: boolean, isPartial: boolean, rules: string, token: CancellationToken): Promise<string> {
+    const settings = this.getSettings(uri)
     let filePath: string
+    // a container only sees the mapped folders, the tmp files must not be left in the project, so tmpDir must be mounted
+    let tmpDirs = (settings.runIn == 'local' ? [settings.tmpDir, TmpDir, HomeDir] : [settings.tmpDir]).filter(Boolean)
+    if (tmpDirs.length == 0) {
+      logger.warn('tmpDir is not set, it must be a host folder mounted in the container, eg: a folder of pathMappings')
+      isPartial || statusInfo('set tmpDir to a host folder mounted in the container.')
+      return Promise.reject()
+    }
     // if interval between two operations too short, see: https://github.com/junstyle/vscode-php-cs-fixer/issues/76
     // so set different filePath for partial codes;
-    if (isPartial) {
+    const sharedPartial = isPartial && settings.runIn == 'local'
+    if (sharedPartial) {
       filePath = TmpDir + '/php-cs-fixer-partial.php'
     } else {
-      let tmpDirs = [this.tmpDir, TmpDir, HomeDir].filter(Boolean);
       for (let i = 0; i < tmpDirs.length; i++) {
-        filePath = path.join(tmpDirs[i], 'pcf-tmp' + Math.random(), uri.fsPath.replace(/^.*[\\/]/, ''))
+        filePath = path.join(tmpDirs[i], 'pcf-tmp' + Math.random(), isPartial ? 'partial.php' : uri.fsPath.replace(/^.*[\\/]/, ''))
         try {
           fs.mkdirSync(path.dirname(filePath), { recursive: true })
-          this.tmpDir = tmpDirs[i]
+          settings.tmpDir = tmpDirs[i]
           break;
         } catch (err) {
-          console.error(err)
+          logger.warn('tmp dir: ' + err.message)
           filePath = ''
         }
       }
@@ -207,237 +710,588 @@ class PHPCSFixer extends PHPCSFixerConfig {
 
     fs.writeFileSync(filePath, text)
 
-    const args = this.getArgs(uri, filePath)
+    const args = this.getArgs(uri, filePath, ['-v'], rules)
     const opts: SpawnOptionsWithoutStdio = {}
     if (uri.scheme == 'file') {
       opts.cwd = path.dirname(uri.fsPath)
     }
-    if (this.ignorePHPVersion) {
+    if (settings.ignorePHPVersion) {
       opts.env = Object.create(process.env)
       opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
     }
 
-    return new Promise((resolve, reject) => {
-      runAsync(this.getRealExecutablePath(uri), args, opts)
-        .then(({ stdout, stderr }) => {
-          output(stdout)
+    return this.run(uri, args, opts, null, token)
+      .then(({ stdout, stderr }) => {
+        if (isDiff) {
+          return filePath
+        }
+        let result = JSON.parse(stdout)
+        if (result && result.files.length > 0) {
+          return fs.readFileSync(filePath, 'utf-8')
+        }
+        return this.unchangedResult(text.toString(), stdout, stderr)
+      })
+      .finally(() => {
+        if (!isDiff && !sharedPartial) {
+          fs.rm(path.dirname(filePath), { recursive: true, force: true }, function (err) { err && logger.warn('tmp dir: ' + err.message) })
+        }
+      })
+  }
 
-          if (isDiff) {
-            resolve(filePath)
-          } else {
-            let result = JSON.parse(stdout)
-            if (result && result.files.length > 0) {
-              resolve(fs.readFileSync(filePath, 'utf-8'))
-            } else {
-              let lines = stderr.split(/\r?\n/).filter(Boolean)
-              if (lines.length > 1) {
-                output(stderr)
-                isPartial || statusInfo(lines[1])
-                return reject(new Error(stderr))
-              } else {
-                resolve(text.toString())
-              }
+  /**
+   * nothing was fixed: the code is already fine, or php-cs-fixer reported errors, eg: invalid syntax
+   */
+  unchangedResult(text: string, stdout: string, stderr: string): string {
+    if (hasFileErrors(stderr)) {
+      throw Object.assign(new Error('php-cs-fixer reported errors'), { stdout, stderr })
+    }
+    return text
+  }
+
+  /**
+   * in dry-run mode, exit code 8: some files need fixing, 4: some files have invalid syntax, the report is still printed
+   */
+  acceptDryRun(err): { stdout: string; stderr: string } {
+    if (err.exitCode && (err.exitCode & ~12) == 0 && err.stdout) {
+      return err
+    }
+    throw err
+  }
+
+  fix(uri: Uri) {
+    statusInfo('fixing')
+
+    const settings = this.getSettings(uri)
+    const args = this.getArgs(uri)
+    const opts: SpawnOptionsWithoutStdio = {}
+    if (uri.fsPath != '') {
+      opts.cwd = path.dirname(uri.fsPath)
+    }
+    if (settings.ignorePHPVersion) {
+      opts.env = Object.create(process.env)
+      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
+    }
+
+    // fixing a folder may take long, so no timeout, fixing it again while running joins the running fix
+    runJob(uri.toString() + '#fix', '', 0, null, (token) =>
+      this.runFixer(uri, args, opts, (data) => {
+        logger.info(data.toString().trimEnd())
+      }, null, token)
+    )
+      .then(({ stdout }) => {
+        hideStatusBar()
+      })
+      .catch((err) => {
+        if (err.code == 'ENOENT') {
+          statusInfo('failed')
+          this.errorTip()
+        } else if (err.code != 'CANCELLED') {
+          const error = parseFixerError(err.stderr, err.stdout, err.exitCode)
+          statusInfo(error.message, error.details)
+        }
+      })
+  }
+
+  /**
+   * run php-cs-fixer in dry-run mode on the saved file and report the violations as diagnostics
+   */
+  lint(document: TextDocument) {
+    const settings = this.getSettings(document.uri)
+    if (!settings.diagnostics || document.uri.scheme != 'file' || document.isUntitled || this.isExcluded(document)) {
+      return
+    }
+
+    const uri = document.uri
+    const args = this.getArgs(uri, null, ['--dry-run', '--diff', '-v'])
+    const opts: SpawnOptionsWithoutStdio = {
+      cwd: path.dirname(uri.fsPath),
+    }
+    if (settings.ignorePHPVersion) {
+      opts.env = Object.create(process.env)
+      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
+    }
+
+    this.run(uri, args, opts)
+      .catch((err) => this.acceptDryRun(err))
+      .then(({ stdout, stderr }) => {
+        let result = JSON.parse(stdout)
+        updateDiagnostics(document, result?.files?.[0])
+
+        let error = hasFileErrors(stderr) ? parseFixerError(stderr, stdout) : null
+        if (error?.kind == 'lint' && error.line != undefined && !document.isDirty) {
+          showErrorDiagnostic(document, error)
+        } else {
+          clearErrorDiagnostics(uri)
+        }
+      })
+      .catch((err) => {
+        logger.error('lint: ' + (err.stderr || err.message))
+      })
+  }
+
+  /**
+   * run php-cs-fixer on a list of files or folders in the folder `dir`, resolves the `files` of the json report
+   * @param uri the settings and the config file are those of uri, eg: a file of the list
+   */
+  runFiles(dir: Uri, files: string[], extraArgs: string[], token: CancellationToken, uri: Uri = dir): Promise<FixerFileResult[]> {
+    const settings = this.getSettings(uri)
+    const args = this.getArgs(uri, files, extraArgs)
+    const opts: SpawnOptionsWithoutStdio = {
+      cwd: dir.fsPath,
+    }
+    if (settings.ignorePHPVersion) {
+      opts.env = Object.create(process.env)
+      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
+    }
+
+    return this.runFixer(uri, args, opts, null, null, token)
+      .catch((err) => this.acceptDryRun(err))
+      .then(({ stdout }) => {
+        let result = JSON.parse(stdout)
+        return (result?.files || []).map((file: FixerFileResult) => {
+          // php-cs-fixer reports the file names relative to cwd
+          let name = path.resolve(dir.fsPath, file.name)
+          return Object.assign({}, file, { name: files.find((f) => path.resolve(f) == name) || name })
+        })
+      })
+  }
+
+  /**
+   * the PHP files of the folders, in batches of files of one folder with the same config file, the nearest one of
+   * each file, eg: a package of a monorepo
+   */
+  findFiles(folders: Uri[], batchSize: number = 50): Thenable<{ folder: Uri; uri: Uri; files: string[] }[]> {
+    return Promise.all(
+      folders.map((folder) =>
+        workspace.findFiles(new RelativePattern(folder.fsPath, '**/*.php'), '**/{vendor,node_modules}/**').then((uris) => {
+          // the files of a directory have the same config file
+          let configFiles = new Map<string, string>()
+          let groups = new Map<string, Uri[]>()
+          for (let uri of uris.filter((uri) => !this.isExcludedUri(uri))) {
+            let dir = path.dirname(uri.fsPath)
+            if (!configFiles.has(dir)) {
+              configFiles.set(dir, this.getConfigFile(uri) ?? '')
             }
+            let configFile = configFiles.get(dir)
+            groups.has(configFile) ? groups.get(configFile).push(uri) : groups.set(configFile, [uri])
           }
-          hideStatusBar()
+          let batches = []
+          groups.forEach((uris) => {
+            for (let i = 0; i < uris.length; i += batchSize) {
+              let files = uris.slice(i, i + batchSize)
+              batches.push({ folder, uri: files[0], files: files.map((uri) => uri.fsPath) })
+            }
+          })
+          return batches
         })
-        .catch((err) => {
-          reject(err)
-          output(err.stderr || JSON.stringify(err, null, 2))
-          isPartial || statusInfo('failed')
+      )
+    ).then((batches) => [].concat(...batches))
+  }
+
+  fixWorkspace(report: FixReportProvider) {
+    statusInfo('fixing workspace')
 
+    window
+      .withProgress({ location: ProgressLocation.Notification, title: 'php-cs-fixer', cancellable: true }, (progress, token) => {
+        progress.report({ message: 'searching PHP files' })
+        let folders = (workspace.workspaceFolders || []).filter((folder) => folder.uri.scheme == 'file').map((folder) => folder.uri)
+        return this.findFiles(folders).then((batches) => {
+          const total = batches.reduce((count, batch) => count + batch.files.length, 0)
+          const fixed: ReportFile[] = []
+          let done = 0
+          const next = (index: number): Promise<{ total: number; fixed: ReportFile[] }> => {
+            if (index >= batches.length || token.isCancellationRequested) {
+              return Promise.resolve({ total: done, fixed })
+            }
+            const { folder, uri, files } = batches[index]
+            progress.report({ message: `fixing ${done}/${total} files` })
+            return this.runFiles(folder, files, ['-v'], token, uri).then(
+              (results) => {
+                results.forEach((file) => fixed.push({ uri: Uri.file(file.name), appliedFixers: file.appliedFixers || [] }))
+                done += files.length
+                progress.report({ increment: (files.length / total) * 100 })
+                return next(index + 1)
+              },
+              (err) => {
+                // the process was killed by the cancellation
+                if (token.isCancellationRequested) {
+                  return next(index + 1)
+                }
+                throw err
+              }
+            )
+          }
+          return next(0)
+        })
+      })
+      .then(
+        ({ total, fixed }) => {
+          hideStatusBar()
+          report.setReport(fixed)
+          window.showInformationMessage(`php-cs-fixer: ${fixed.length} of ${total} files fixed.`, 'Show Report').then((t) => {
+            if (t == 'Show Report') {
+              commands.executeCommand('php-cs-fixer.report.focus')
+            }
+          })
+        },
+        (err) => {
+          logger.error(err.stderr || err.message)
+          statusInfo('failed')
           if (err.code == 'ENOENT') {
             this.errorTip()
-          } else if (err.exitCode) {
-            const msgs = {
-              1: err.stdout || 'General error (or PHP minimal requirement not matched).',
-              16: 'Configuration error of the application.', //  The path "/file/path.php" is not readable
-              32: 'Configuration error of a Fixer.',
-              64: 'Exception raised within the application.',
-              255: err.stderr?.match(/PHP (?:Fatal|Parse) error:\s*Uncaught Error:[^\r?\n]+/)?.[0] || 'PHP Fatal error, click to show output.',
+          }
+        }
+      )
+  }
+
+  /**
+   * fix a folder in dry-run mode, and let the user choose the changes to apply in the refactor preview
+   */
+  fixPreview(uri: Uri) {
+    statusInfo('fixing')
+
+    window
+      .withProgress({ location: ProgressLocation.Notification, title: 'php-cs-fixer: fixing', cancellable: true }, (progress, token) => {
+        // the files of a package use its own config file
+        return this.findFiles([uri]).then((batches) => {
+          const next = (index: number, found: FixerFileResult[]): Promise<FixerFileResult[]> => {
+            if (index >= batches.length || token.isCancellationRequested) {
+              return Promise.resolve(found)
             }
-            isPartial || statusInfo(msgs[err.exitCode])
+            const batch = batches[index]
+            return this.runFiles(uri, batch.files, ['--dry-run', '--diff', '-v'], token, batch.uri).then((files) => next(index + 1, found.concat(files)))
           }
+          return next(0, [])
         })
-        .finally(() => {
-          isRunning = false
-          if (!isDiff && !isPartial) {
-            fs.rm(path.dirname(filePath), { recursive: true, force: true }, function (err) { err && console.error(err) })
+      })
+      .then(
+        (files) => {
+          hideStatusBar()
+          let edit = new WorkspaceEdit()
+          for (let file of files) {
+            let fileUri = Uri.file(file.name)
+            if (!file.diff || this.isExcludedUri(fileUri)) {
+              continue
+            }
+            if (workspace.textDocuments.some((d) => d.isDirty && d.uri.fsPath == fileUri.fsPath)) {
+              logger.warn('skip unsaved file: ' + file.name)
+              continue
+            }
+
+            let lines = fs.readFileSync(file.name, 'utf-8').split('\n')
+            let toPosition = (line: number) => (line < lines.length ? new Position(line, 0) : new Position(lines.length - 1, lines[lines.length - 1].length))
+            let replacements = parseUnifiedDiff(file.diff).map(getHunkReplacement)
+            let matched = replacements.every((r) => lines.slice(r.start, r.end).map((l, i) => (r.start + i < lines.length - 1 ? l + '\n' : l)).join('') == r.oldText)
+            if (!matched) {
+              logger.warn('skip file, the diff does not match the saved file: ' + file.name)
+              continue
+            }
+
+            let metadata = { needsConfirmation: true, label: path.relative(uri.fsPath, file.name), description: (file.appliedFixers || []).join(', ') }
+            for (let r of replacements) {
+              edit.replace(fileUri, new Range(toPosition(r.start), toPosition(r.end)), r.newText, metadata)
+            }
+          }
+
+          if (edit.size == 0) {
+            window.showInformationMessage('php-cs-fixer: nothing to fix.')
+          } else {
+            return workspace.applyEdit(edit)
+          }
+        },
+        (err) => {
+          logger.error(err.stderr || err.message)
+          statusInfo('failed')
+          if (err.code == 'ENOENT') {
+            this.errorTip()
+          }
+        }
+      )
+  }
+
+  diff(uri: Uri) {
+    this.format(fs.readFileSync(uri.fsPath), uri, true)
+      .then((tempFilePath) => this.showDiff(uri, tempFilePath, 'diff'))
+      .catch((err) => {
+        // the failures of php-cs-fixer are logged by format
+        err && logger.debug('diff: ' + err.message)
+      })
+  }
+
+  /**
+   * diff uri with the fixed tmp file, the folder of the tmp file is removed when the diff is closed
+   */
+  showDiff(uri: Uri, tempFilePath: string, title: string) {
+    let tempUri = Uri.file(tempFilePath)
+    let disposable = workspace.onDidCloseTextDocument((document) => {
+      if (document.uri.toString() == tempUri.toString()) {
+        disposable.dispose()
+        fs.rm(path.dirname(tempFilePath), { recursive: true, force: true }, function (err) { err && logger.warn('tmp dir: ' + err.message) })
+      }
+    })
+    return commands.executeCommand('vscode.diff', uri, tempUri, title)
+  }
+
+  /**
+   * write .php-cs-fixer.dist.php into a workspace folder, with the rules, allowRisky and exclude of the settings
+   * @param migrate then remove the rules and allowRisky settings of the workspace, the config file replaces them
+   */
+  createConfig(migrate: boolean = false) {
+    const folders = workspace.workspaceFolders || []
+    const activeUri = window.activeTextEditor?.document.uri
+    const activeFolder = activeUri != undefined ? workspace.getWorkspaceFolder(activeUri) : undefined
+    const pick: Thenable<WorkspaceFolder> = activeFolder != undefined || folders.length <= 1 ? Promise.resolve(activeFolder || folders[0]) : window.showWorkspaceFolderPick()
+
+    pick.then((folder) => {
+      if (folder == undefined || folder.uri.scheme != 'file') {
+        window.showErrorMessage('PHP CS Fixer: open a workspace folder to create a config file.')
+        return
+      }
+      const settings = this.getSettings(folder.uri)
+      const configPath = path.join(folder.uri.fsPath, '.php-cs-fixer.dist.php')
+      const write = () => {
+        const code = generateConfig(this.getRules(folder.uri), settings.allowRisky, settings.exclude, folder.uri.path)
+        fs.writeFileSync(configPath, code)
+        window.showTextDocument(Uri.file(configPath)).then(() => {
+          if (migrate) {
+            this.removeRulesSettings(folder)
           }
         })
+      }
+
+      if (!fs.existsSync(configPath)) {
+        write()
+        return
+      }
+      window.showWarningMessage(`PHP CS Fixer: ${configPath} already exists.`, 'Overwrite', 'Open').then((t) => {
+        if (t == 'Overwrite') {
+          write()
+        } else if (t == 'Open') {
+          window.showTextDocument(Uri.file(configPath))
+        }
+      })
     })
   }
 
-  fix(uri: Uri) {
-    isRunning = true
-    clearOutput()
-    statusInfo('fixing')
+  removeRulesSettings(folder: WorkspaceFolder) {
+    return window.showInformationMessage('PHP CS Fixer: the config file is used instead of the rules and allowRisky settings, remove them from the workspace settings?', 'Remove').then((t) => {
+      if (t != 'Remove') {
+        return
+      }
+      const config = workspace.getConfiguration('php-cs-fixer', folder.uri)
+      const targets = [ConfigurationTarget.WorkspaceFolder, ConfigurationTarget.Workspace]
+      return Promise.all(
+        ['rules', 'allowRisky'].flatMap((key) => targets.map((target) => Promise.resolve(config.update(key, undefined, target)).catch((err) => logger.debug('migrate settings: ' + err.message))))
+      )
+    })
+  }
+
+  /**
+   * the file the rule explorer is about: the active php file, or the first workspace folder
+   */
+  getRuleExplorerUri(): Uri | null {
+    let editor = window.activeTextEditor
+    if (editor != undefined && editor.document.languageId == 'php') {
+      return editor.document.uri
+    }
+    return workspace.workspaceFolders?.[0]?.uri || null
+  }
+
+  getRules(uri: Uri): { [name: string]: any } {
+    try {
+      return parseRules(this.getSettings(uri).rules as string)
+    } catch (err) {
+      logger.warn('invalid rules: ' + err.message)
+      return {}
+    }
+  }
 
-    const args = this.getArgs(uri)
-    const opts: SpawnOptionsWithoutStdio = {}
-    if (uri.fsPath != '') {
-      opts.cwd = path.dirname(uri.fsPath)
+  /**
+   * clear the rule catalog if the php-cs-fixer of the rule explorer or its version changed
+   * @returns whether it was cleared
+   */
+  updateRuleCatalog(): Promise<boolean> {
+    const uri = this.getRuleExplorerUri()
+    const executable = this.getExecutableKey(uri)
+    return this.getVersion(uri).then(
+      (version) => this.ruleCatalog.setKey(executable + ' ' + version),
+      () => this.ruleCatalog.setKey(executable)
+    )
+  }
+
+  /**
+   * check the rules setting with the installed php-cs-fixer, so a typo is reported instead of failing with exit code 32
+   */
+  validateRules() {
+    const uri = this.getRuleExplorerUri()
+    if (uri != null && this.getConfigFile(uri) != null) {
+      // the rules setting is ignored
+      return
     }
-    if (this.ignorePHPVersion) {
-      opts.env = Object.create(process.env)
-      opts.env.PHP_CS_FIXER_IGNORE_ENV = "1"
+    let rules: { [name: string]: any }
+    try {
+      rules = parseRules(this.getSettings(uri).rules as string)
+    } catch (err) {
+      this.reportRulesProblems(['invalid json: ' + err.message])
+      return
     }
+    validateRules(rules, this.ruleCatalog).then((problems) => this.reportRulesProblems(problems))
+  }
 
-    runAsync(this.getRealExecutablePath(uri), args, opts, (data) => {
-      output(data.toString())
+  reportRulesProblems(problems: string[]) {
+    const message = problems.join('\n')
+    // don't repeat the same problems on every change of the settings
+    if (message == this.rulesProblems) {
+      return
+    }
+    this.rulesProblems = message
+    if (problems.length == 0) {
+      return
+    }
+    logger.warn('php-cs-fixer.rules:\n' + message)
+    window.showWarningMessage('PHP CS Fixer: php-cs-fixer.rules: ' + problems.join('; '), 'Open Settings').then((t) => {
+      if (t == 'Open Settings') {
+        commands.executeCommand('workbench.action.openSettingsJson')
+      }
     })
-      .then(({ stdout }) => {
-        hideStatusBar()
-      })
-      .catch((err) => {
-        statusInfo('failed')
-        if (err.code == 'ENOENT') {
-          this.errorTip()
+  }
+
+  /**
+   * enable or disable a rule in the workspace `rules` setting, then preview its effect on the active php file
+   */
+  toggleRule(name: string) {
+    const uri = this.getRuleExplorerUri()
+    const configFile = uri != null ? this.getConfigFile(uri) : null
+    if (configFile != null) {
+      window.showWarningMessage(`PHP CS Fixer: the rules of ${configFile} are used, php-cs-fixer.rules is ignored.`, 'Open Config').then((t) => {
+        if (t == 'Open Config') {
+          window.showTextDocument(Uri.file(configFile))
         }
       })
-      .finally(() => {
-        isRunning = false
+      return
+    }
+
+    const oldRules = this.getRules(uri)
+    const rules = toggleRule(oldRules, name)
+    const editor = window.activeTextEditor
+    // where the rules are defined, a folder setting would override the workspace setting
+    const config = workspace.getConfiguration('php-cs-fixer', uri)
+    const target = config.inspect('rules').workspaceFolderValue !== undefined ? ConfigurationTarget.WorkspaceFolder : ConfigurationTarget.Workspace
+    config
+      .update('rules', rules, target)
+      .then(
+        () => {
+          if (editor == undefined || editor.document.languageId != 'php' || this.isExcluded(editor.document)) {
+            return
+          }
+          // the effect of the rule only, not all the pending changes of a file which isn't formatted yet
+          const document = editor.document
+          const text = document.getText()
+          return this.format(text, document.uri, false, false, JSON.stringify(oldRules)).then((before) =>
+            this.format(text, document.uri, true, false, JSON.stringify(rules)).then((tempFilePath) => {
+              // in the folder of the tmp file, so it is removed with it
+              const beforePath = path.join(path.dirname(tempFilePath), 'before-' + path.basename(tempFilePath))
+              fs.writeFileSync(beforePath, before)
+              return this.showDiff(Uri.file(beforePath), tempFilePath, `php-cs-fixer: ${name} ${rules[name] === false ? 'disabled' : rules[name] === undefined ? 'reset' : 'enabled'}`)
+            })
+          )
+        },
+        (err) => {
+          window.showErrorMessage('PHP CS Fixer: ' + err.message)
+        }
+      )
+      .then(undefined, (err) => {
+        err && logger.error('toggle rule: ' + (err.stderr || err.message))
       })
   }
 
-  diff(uri: Uri) {
-    this.format(fs.readFileSync(uri.fsPath), uri, true)
-      .then((tempFilePath) => {
-        commands.executeCommand('vscode.diff', uri, Uri.file(tempFilePath), 'diff')
-      })
-      .catch((err) => {
-        console.error(err)
-      })
+  /**
+   * the trigger characters of the auto fixes enabled in the workspace or in any of its folders
+   */
+  getAutoFixTriggers(): string[] {
+    const all = [null, ...(workspace.workspaceFolders || []).map((folder) => folder.uri)].map((uri) => this.getSettings(uri))
+    const triggers = []
+    all.some((settings) => settings.autoFixByBracket) && triggers.push('}')
+    all.some((settings) => settings.autoFixBySemicolon) && triggers.push(';')
+    all.some((settings) => settings.autoFixByNewline) && triggers.push('\n')
+    return triggers
   }
 
-  doAutoFixByBracket(event: TextDocumentChangeEvent) {
-    if (event.contentChanges.length == 0) return
-    let pressedKey = event.contentChanges[0].text
-    // console.log(pressedKey);
-    if (!/^\s*\}$/.test(pressedKey)) {
-      return
+  /**
+   * fix the code as it's typed: the block ended by `}`, the line ended by `;`, or the line before a newline
+   */
+  onTypeFormattingProvider(document: TextDocument, position: Position, ch: string, token: CancellationToken): Promise<TextEdit[]> {
+    if (this.isExcluded(document)) {
+      return Promise.resolve([])
     }
 
-    let editor = window.activeTextEditor
-    let document = editor.document
-    let originalStart = editor.selection.start
-    commands.executeCommand('editor.action.jumpToBracket').then(() => {
-      let start = editor.selection.start
-      let offsetStart0 = document.offsetAt(originalStart)
-      let offsetStart1 = document.offsetAt(start)
-      if (offsetStart0 == offsetStart1) {
-        return
-      }
-
-      let nextChar = document.getText(new Range(start, start.translate(0, 1)))
-      if (offsetStart0 - offsetStart1 < 3 || nextChar != '{') {
-        // jumpToBracket to wrong match bracket, do nothing
-        commands.executeCommand('cursorUndo')
-        return
+    const settings = this.getSettings(document.uri)
+    let edits: Promise<TextEdit[]> = null
+    if (ch == '}' && settings.autoFixByBracket) {
+      edits = this.bracketEdits(document, document.offsetAt(position) - 1, token)
+    } else if (ch == ';' && settings.autoFixBySemicolon && document.lineAt(position).text.slice(position.character).trim() == '') {
+      // only at the end of the line
+      edits = this.lineEdits(document, position.line, token)
+    } else if (ch == '\n' && settings.autoFixByNewline && position.line > 0) {
+      const line = document.lineAt(position.line - 1)
+      const text = line.text.trimEnd()
+      if (text.endsWith('}')) {
+        edits = this.bracketEdits(document, document.offsetAt(line.range.start) + text.length - 1, token)
+      } else if (text.endsWith(';')) {
+        // the other lines are mostly the start of a statement, eg: `if ($a)` or `$a = [`
+        edits = this.lineEdits(document, line.lineNumber, token)
       }
+    }
+    return (edits || Promise.resolve([])).catch((err) => {
+      err && logger.debug('auto fix: ' + err.message)
+      return []
+    })
+  }
 
-      let line = document.lineAt(start)
-      let code = '<?php\n$__pcf__spliter=0;\n'
-      let dealFun = (fixed) => fixed.replace(/^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\r?\n/, '').replace(/\s*$/, '')
-      let searchIndex = -1
-      if (/^\s*\{\s*$/.test(line.text)) {
-        // check previous line
-        let preline = document.lineAt(line.lineNumber - 1)
-        searchIndex = preline.text.search(/((if|for|foreach|while|switch|^\s*function\s+\w+|^\s*function\s*)\s*\(.+?\)|(class|trait|interface)\s+[\w ]+|do|try)\s*$/i)
-        if (searchIndex > -1) {
-          line = preline
-        }
-      } else {
-        searchIndex = line.text.search(/((if|for|foreach|while|switch|^\s*function\s+\w+|^\s*function\s*)\s*\(.+?\)|(class|trait|interface)\s+[\w ]+|do|try)\s*\{\s*$/i)
-      }
+  /**
+   * the edits of the statement, class member, closure or match ended by the `}` at offset, found in the parsed document
+   */
+  bracketEdits(document: TextDocument, offset: number, token: CancellationToken): Promise<TextEdit[]> {
+    let snapshot = this.getSnapshot(document)
+    let fragment = findBracketFragment(snapshot.text, offset)
+    if (fragment == null) {
+      return Promise.resolve([])
+    }
 
-      if (searchIndex > -1) {
-        start = line.range.start
-      } else {
-        // indent + if(1)
-        code += line.text.match(/^(\s*)\S+/)[1] + 'if(1)'
-        dealFun = (fixed) => {
-          let match = fixed.match(/^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\s+?if\s*\(\s*1\s*\)\s*(\{[\s\S]+?\})\s*$/i)
-          if (match != null) {
-            fixed = match[1]
-          } else {
-            fixed = ''
-          }
-          return fixed
-        }
+    return this.format(fragment.code, document.uri, false, true, null, token).then((text) => {
+      text = fragment.extract(text)
+      if (text == null || text == fragment.text) {
+        return []
       }
-
-      commands.executeCommand('cursorUndo').then(() => {
-        let end = editor.selection.start
-        let range = new Range(start, end)
-        let originalText = code + document.getText(range)
-
-        this.format(originalText, document.uri, false, true)
-          .then((text) => {
-            text = dealFun(text)
-            if (text != dealFun(originalText)) {
-              editor
-                .edit((builder) => {
-                  builder.replace(range, text)
-                })
-                .then(() => {
-                  if (editor.selections.length > 0) {
-                    commands.executeCommand('cancelSelection')
-                  }
-                })
-            }
-          })
-          .catch((err) => {
-            console.log(err)
-          })
-      })
+      return this.getTextEdits(document, fragment.text, text, fragment.start, snapshot)
     })
   }
 
-  doAutoFixBySemicolon(event: TextDocumentChangeEvent) {
-    if (event.contentChanges.length == 0) return
-    let pressedKey = event.contentChanges[0].text
-    // console.log(pressedKey);
-    if (pressedKey != ';') {
-      return
-    }
-    let editor = window.activeTextEditor
-    let line = editor.document.lineAt(editor.selection.start)
-    if (line.text.length < 5) {
-      return
-    }
-    // only at last char
-    if (line.range.end.character != editor.selection.end.character + 1) {
-      return
+  /**
+   * the edits of a single line statement
+   */
+  lineEdits(document: TextDocument, lineNumber: number, token: CancellationToken): Promise<TextEdit[]> {
+    let line = document.lineAt(lineNumber)
+    if (line.text.trim().length < 5) {
+      return Promise.resolve([])
     }
 
     let indent = line.text.match(/^(\s*)/)[1]
     let dealFun = (fixed) => fixed.replace(/^<\?php[\s\S]+?\$__pcf__spliter\s*=\s*0;\r?\n/, '').replace(/\s+$/, '')
-    let range = line.range
+    let snapshot = this.getSnapshot(document)
+    let offset = document.offsetAt(line.range.start)
     let originalText = '<?php\n$__pcf__spliter=0;\n' + line.text
 
-    this.format(originalText, editor.document.uri, false, true)
-      .then((text) => {
-        text = dealFun(text)
-        if (text != dealFun(originalText)) {
-          text = indent + text
-          editor
-            .edit((builder) => {
-              builder.replace(range, text)
-            })
-            .then(() => {
-              if (editor.selections.length > 0) {
-                commands.executeCommand('cancelSelection')
-              }
-            })
-        }
-      })
-      .catch((err) => {
-        console.log(err)
-      })
+    return this.format(originalText, document.uri, false, true, null, token).then((text) => {
+      text = dealFun(text)
+      if (text == dealFun(originalText)) {
+        return []
+      }
+      return this.getTextEdits(document, line.text, indent + text, offset, snapshot)
+    })
   }
 
-  formattingProvider(document: TextDocument, options: FormattingOptions): Promise<TextEdit[]> {
+  formattingProvider(document: TextDocument, options: FormattingOptions, token: CancellationToken = null): Promise<TextEdit[]> {
     if (this.isExcluded(document)) {
       return
     }
@@ -447,73 +1301,241 @@ class PHPCSFixer extends PHPCSFixerConfig {
     //     || (window.activeTextEditor.document.uri.toString() != document.uri.toString() && lastActiveEditor != document.uri.toString()))
     //     return
 
-    isRunning = false
     return new Promise((resolve, reject) => {
-      let originalText = document.getText()
-      let lastLine = document.lineAt(document.lineCount - 1)
-      let range = new Range(new Position(0, 0), lastLine.range.end)
-      let htmlOptions = Object.assign(options, workspace.getConfiguration('html').get('format'))
-      let originalText2 = this.formatHtml ? beautify(originalText, htmlOptions) : originalText
+      let snapshot = this.getSnapshot(document)
+      let originalText = snapshot.text
 
-      this.format(originalText2, document.uri)
+      this.formatDocument(document, options, token)
         .then((text) => {
           if (text && text != originalText) {
-            resolve([new TextEdit(range, text)])
+            resolve(this.getTextEdits(document, originalText, text, 0, snapshot))
           } else {
             resolve([])
           }
         })
         .catch((err) => {
-          console.log(err)
+          // the failures of php-cs-fixer are logged by format
+          err && logger.debug('format: ' + err.message)
           reject()
         })
     })
   }
 
-  rangeFormattingProvider(document: TextDocument, range: Range): Promise<TextEdit[]> {
+  /**
+   * format the document, but only keep the changes touching the lines modified since git HEAD, or since the last save
+   */
+  modificationsFormattingProvider(document: TextDocument, options: FormattingOptions, token: CancellationToken = null): Promise<TextEdit[]> {
     if (this.isExcluded(document)) {
       return
     }
 
-    // only activeTextEditor, or last activeTextEditor
-    // if (window.activeTextEditor == undefined
-    //     || (window.activeTextEditor.document.uri.toString() != document.uri.toString() && lastActiveEditor != document.uri.toString()))
-    //     return
+    return new Promise((resolve, reject) => {
+      let snapshot = this.getSnapshot(document)
+      let originalText = snapshot.text
+
+      Promise.all([this.getBaseText(document), this.formatDocument(document, options, token)])
+        .then(([baseText, text]) => {
+          let lines = splitLines(originalText)
+          let formattedLines = splitLines(text)
+          let offsets = getLineOffsets(lines)
+          // a deleted line marks the line at its position as modified, git may store the file with other line endings
+          let normalize = (l: string) => l.replace(/\r\n$/, '\n')
+          let modified = diffLines(splitLines(baseText).map(normalize), lines.map(normalize)).map((c) => [c.newStart, Math.max(c.newEnd, c.newStart + 1)])
+          let changes = diffLines(lines, formattedLines)
+            .filter((c) => {
+              // an inserted line touches the lines before and after it
+              let start = c.oldStart == c.oldEnd ? c.oldStart - 1 : c.oldStart
+              let end = Math.max(c.oldEnd, c.oldStart + 1)
+              return modified.some((m) => start < m[1] && m[0] < end)
+            })
+            .map((c) => trimTextChange(originalText, toTextChange(offsets, formattedLines, c)))
+          resolve(this.toTextEdits(document, changes, snapshot))
+        })
+        .catch((err) => {
+          err && logger.debug('format: ' + err.message)
+          reject()
+        })
+    })
+  }
+
+  /**
+   * the fully formatted text of the document, including the html pre-pass
+   */
+  formatDocument(document: TextDocument, options: FormattingOptions, token: CancellationToken = null): Promise<string> {
+    let originalText = document.getText()
+    let htmlOptions = Object.assign(options, workspace.getConfiguration('html').get('format'))
+    let originalText2 = originalText
+    if (this.getSettings(document.uri).formatHtml) {
+      originalText2 = beautify(originalText, htmlOptions)
+      try {
+        this.checkSafety(document.uri, originalText, originalText2, 'html')
+      } catch (err) {
+        return Promise.reject(err)
+      }
+    }
+    return this.format(originalText2, document.uri, false, false, null, token).then((text) => {
+      this.checkSafety(document.uri, originalText2, text, 'php-cs-fixer')
+      return text
+    })
+  }
+
+  /**
+   * throw if a formatting stage broke the code, with `php-cs-fixer.safetyCheck`
+   * @param stage the html formatting, or php-cs-fixer
+   */
+  checkSafety(uri: Uri, before: string, after: string, stage: 'html' | 'php-cs-fixer') {
+    const settings = this.getSettings(uri)
+    if (settings.safetyCheck == 'off') {
+      return
+    }
+    // risky rules are allowed to change the code
+    const compare = settings.safetyCheck == 'tokens' && !settings.allowRisky
+    const problem = checkFormatted(before, after, compare, stage == 'html')
+    if (problem != null) {
+      const message = (stage == 'html' ? 'the html formatting' : 'php-cs-fixer') + ' broke the code, the changes are not applied'
+      logger.error(message + ': ' + problem)
+      statusInfo('not applied, ' + stage + ' broke the code', problem)
+      throw Object.assign(new Error(message + ': ' + problem), { code: 'UNSAFE' })
+    }
+  }
+
+  /**
+   * the text of the document at git HEAD, or the last saved text if the file is not committed
+   */
+  getBaseText(document: TextDocument): Promise<string> {
+    if (document.isUntitled || document.uri.scheme != 'file') {
+      return Promise.resolve('')
+    }
+
+    const lastSaved = () => (fs.existsSync(document.uri.fsPath) ? fs.readFileSync(document.uri.fsPath, 'utf-8') : '')
+    return runAsync('git', ['show', 'HEAD:./' + path.basename(document.uri.fsPath)], { cwd: path.dirname(document.uri.fsPath) })
+      .then(({ stdout }) => stdout || '')
+      .catch(lastSaved)
+  }
+
+  /**
+   * format the whole document, but only keep the changes within the range expanded to the statements it cuts,
+   * so the selected code keeps its indentation and is formatted in its context
+   */
+  rangeFormattingProvider(document: TextDocument, range: Range, token: CancellationToken = null): Promise<TextEdit[]> {
+    if (this.isExcluded(document)) {
+      return
+    }
 
-    isRunning = false
     return new Promise((resolve, reject) => {
-      let originalText = document.getText(range)
-      if (originalText.replace(/\s+/g, '').length == 0) {
+      let snapshot = this.getSnapshot(document)
+      let originalText = snapshot.text
+      let [start, end] = expandToStatements(originalText, document.offsetAt(range.start), document.offsetAt(range.end))
+      if (originalText.slice(start, end).trim().length == 0) {
         reject()
         return
       }
-      let addPHPTag = false
-      if (originalText.search(/^\s*<\?php/i) == -1) {
-        originalText = '<?php\n' + originalText
-        addPHPTag = true
-      }
 
-      this.format(originalText, document.uri)
+      this.format(originalText, document.uri, false, false, null, token)
         .then((text) => {
-          if (addPHPTag) {
-            text = text.replace(/^<\?php\r?\n/, '')
-          }
-          if (text && text != originalText) {
-            resolve([new TextEdit(range, text)])
-          } else {
-            resolve([])
-          }
+          this.checkSafety(document.uri, originalText, text, 'php-cs-fixer')
+          // a change at the end belongs to the next line
+          let changes = computeTextChanges(originalText, text).filter((c) => start <= c.start && c.end <= end && c.start < end)
+          resolve(this.toTextEdits(document, changes, snapshot))
         })
         .catch((err) => {
-          console.log(err)
+          err && logger.debug('format: ' + err.message)
           reject()
         })
     })
   }
 
+  codeActionsProvider(document: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+    // syntax errors have no fixer as code
+    let diagnostics = context.diagnostics.filter((d) => d.source == 'php-cs-fixer' && d.code != undefined)
+    if (diagnostics.length == 0) {
+      return []
+    }
+
+    let actions: CodeAction[] = []
+    let fixers = new Set(diagnostics.map((d) => d.code as string))
+    for (let fixer of fixers) {
+      let action = new CodeAction('Fix with php-cs-fixer: ' + fixer, CodeActionKind.QuickFix)
+      action.diagnostics = diagnostics.filter((d) => d.code == fixer)
+      action.command = { title: action.title, command: 'php-cs-fixer.fixRule', arguments: [document.uri, fixer] }
+      actions.push(action)
+    }
+    let action = new CodeAction('Fix all php-cs-fixer issues in file', CodeActionKind.QuickFix)
+    action.diagnostics = diagnostics
+    action.command = { title: action.title, command: 'php-cs-fixer.fixRule', arguments: [document.uri] }
+    actions.push(action)
+    return actions
+  }
+
+  /**
+   * fix the document with only the given rule and its options of the config file or the `rules` setting, or with all
+   * configured rules if rule is null
+   */
+  fixRule(document: TextDocument, rule: string = null) {
+    if (this.isExcluded(document)) {
+      return
+    }
+
+    let snapshot = this.getSnapshot(document)
+    let originalText = snapshot.text
+    let rules = rule != null ? JSON.stringify({ [rule]: this.getRules(document.uri)[rule] ?? true }) : null
+    this.format(originalText, document.uri, false, false, rules)
+      .then((text) => {
+        if (text && text != originalText) {
+          let edit = new WorkspaceEdit()
+          edit.set(document.uri, this.getTextEdits(document, originalText, text, 0, snapshot))
+          return workspace.applyEdit(edit)
+        }
+      })
+      .then(() => {
+        if (rule == null) {
+          clearDiagnostics(document.uri)
+        } else {
+          removeDiagnostics(document.uri, rule)
+        }
+      })
+      .catch((err) => {
+        err && logger.debug('fix rule: ' + err.message)
+      })
+  }
+
+  /**
+   * the version and the text of the document when a format request starts
+   */
+  getSnapshot(document: TextDocument): DocumentSnapshot {
+    return { version: document.version, text: document.getText() }
+  }
+
+  /**
+   * the minimal edits turning originalText, which starts at offset of the document, into text
+   * @param snapshot the document when originalText was read, if the document changed since, the edits are moved onto
+   * the current content, or dropped if the document changed at the same place
+   */
+  getTextEdits(document: TextDocument, originalText: string, text: string, offset: number = 0, snapshot: DocumentSnapshot = null): TextEdit[] {
+    let changes = computeTextChanges(originalText, text).map((c) => ({ start: offset + c.start, end: offset + c.end, text: c.text }))
+    return this.toTextEdits(document, changes, snapshot)
+  }
+
+  toTextEdits(document: TextDocument, changes: TextChange[], snapshot: DocumentSnapshot = null): TextEdit[] {
+    if (snapshot != null && document.version != snapshot.version) {
+      changes = rebaseTextChanges(changes, computeTextChanges(snapshot.text, document.getText()))
+      if (changes == null) {
+        logger.info('the document changed while formatting, the changes are dropped')
+        statusInfo('document changed while formatting, try again')
+        return []
+      }
+    }
+    return changes.map((c) => new TextEdit(new Range(document.positionAt(c.start), document.positionAt(c.end)), c.text))
+  }
+
   isExcluded(document: TextDocument): boolean {
-    if (this.exclude.length > 0 && document.uri.scheme == 'file' && !document.isUntitled) {
-      return anymatch(this.exclude, document.uri.path)
+    return !document.isUntitled && this.isExcludedUri(document.uri)
+  }
+
+  isExcludedUri(uri: Uri): boolean {
+    const exclude = this.getSettings(uri).exclude
+    if (exclude.length > 0 && uri.scheme == 'file') {
+      return anymatch(exclude, uri.path)
     }
     return false
   }
@@ -534,7 +1556,7 @@ class PHPCSFixer extends PHPCSFixerConfig {
       let executablePath = config.get('executablePath', 'php-cs-fixer')
       let lastDownload = config.get('lastDownload', 1)
       if (lastDownload !== 0 && executablePath == '${extensionPath}/php-cs-fixer.phar' && lastDownload + 1000 * 3600 * 24 * 7 < new Date().getTime()) {
-        console.log('php-cs-fixer: check for updating...')
+        logger.info('check for updating php-cs-fixer.phar')
         const { DownloaderHelper } = require('node-downloader-helper')
         let dl = new DownloaderHelper('https://cs.symfony.com/download/php-cs-fixer-v3.phar', __dirname, { fileName: 'php-cs-fixer.phar.tmp', override: true })
         dl.on('end', () => {
@@ -559,8 +1581,13 @@ exports.activate = (context: ExtensionContext) => {
 
   context.subscriptions.push(
     workspace.onWillSaveTextDocument((event) => {
-      if (event.document.languageId == 'php' && pcf.onsave && pcf.editorFormatOnSave == false) {
-        event.waitUntil(pcf.formattingProvider(event.document, {} as any))
+      const settings = pcf.getSettings(event.document.uri)
+      if (event.document.languageId == 'php' && settings.onsave && pcf.editorFormatOnSave == false) {
+        if (settings.onsaveMode == 'modifications') {
+          event.waitUntil(pcf.modificationsFormattingProvider(event.document, {} as any))
+        } else {
+          event.waitUntil(pcf.formattingProvider(event.document, {} as any))
+        }
       }
     })
   )
@@ -571,7 +1598,7 @@ exports.activate = (context: ExtensionContext) => {
         pcf.formattingProvider(textEditor.document, {} as any).then((tes) => {
           if (tes && tes.length > 0) {
             textEditor.edit((eb) => {
-              eb.replace(tes[0].range, tes[0].newText)
+              tes.forEach((te) => eb.replace(te.range, te.newText))
             })
           }
         })
@@ -579,34 +1606,111 @@ exports.activate = (context: ExtensionContext) => {
     })
   )
 
+  // vscode only asks the first on-type formatter of a document, so it's only registered for the enabled auto fixes
+  let onTypeProvider: Disposable = null
+  let onTypeTriggers: string = null
+  const registerOnTypeProvider = () => {
+    const triggers = pcf.getAutoFixTriggers()
+    if (triggers.join('') == onTypeTriggers) {
+      return
+    }
+    onTypeProvider?.dispose()
+    onTypeProvider = null
+    onTypeTriggers = triggers.join('')
+    if (triggers.length > 0) {
+      onTypeProvider = languages.registerOnTypeFormattingEditProvider(
+        'php',
+        {
+          provideOnTypeFormattingEdits: (document, position, ch, options, token) => {
+            return pcf.onTypeFormattingProvider(document, position, ch, token)
+          },
+        },
+        triggers[0],
+        ...triggers.slice(1)
+      )
+    }
+  }
+  registerOnTypeProvider()
+  context.subscriptions.push({ dispose: () => onTypeProvider?.dispose() })
+  context.subscriptions.push(workspace.onDidChangeWorkspaceFolders(() => registerOnTypeProvider()))
+
   context.subscriptions.push(
-    workspace.onDidChangeTextDocument((event) => {
-      if (event.document.languageId == 'php' && isRunning == false) {
-        if (pcf.isExcluded(event.document)) {
-          return
-        }
+    workspace.onDidChangeConfiguration((event) => {
+      pcf.loadSettings()
+      if (event.affectsConfiguration('php-cs-fixer')) {
+        registerOnTypeProvider()
+        stopWorker()
+        clearDiagnostics()
+        workspace.textDocuments.forEach((document) => {
+          if (document.languageId == 'php') {
+            pcf.lint(document)
+          }
+        })
+        // describing the rules again is slow, only if the rules or php-cs-fixer changed
+        pcf.updateRuleCatalog().then((cleared) => {
+          if (cleared || event.affectsConfiguration('php-cs-fixer.rules')) {
+            pcf.validateRules()
+          }
+        })
+      }
+    })
+  )
 
-        if (pcf.autoFixByBracket) {
-          pcf.doAutoFixByBracket(event)
-        }
-        if (pcf.autoFixBySemicolon) {
-          pcf.doAutoFixBySemicolon(event)
-        }
+  context.subscriptions.push(
+    languages.registerCodeActionsProvider(
+      'php',
+      {
+        provideCodeActions: (document, range, context, token) => {
+          return pcf.codeActionsProvider(document, range, context)
+        },
+      },
+      { providedCodeActionKinds: [CodeActionKind.QuickFix] }
+    )
+  )
+
+  context.subscriptions.push(
+    commands.registerCommand('php-cs-fixer.fixRule', (uri: Uri, rule?: string) => {
+      let document = workspace.textDocuments.find((d) => d.uri.toString() == uri.toString())
+      if (document != undefined) {
+        pcf.fixRule(document, rule)
       }
     })
   )
 
   context.subscriptions.push(
-    workspace.onDidChangeConfiguration(() => {
-      pcf.loadSettings()
+    workspace.onDidOpenTextDocument((document) => {
+      if (document.languageId == 'php') {
+        pcf.lint(document)
+      }
+    })
+  )
+
+  context.subscriptions.push(
+    workspace.onDidSaveTextDocument((document) => {
+      if (document.languageId == 'php') {
+        pcf.lint(document)
+      }
+    })
+  )
+
+  context.subscriptions.push(
+    workspace.onDidCloseTextDocument((document) => {
+      clearDiagnostics(document.uri)
+      clearErrorDiagnostics(document.uri)
     })
   )
 
+  workspace.textDocuments.forEach((document) => {
+    if (document.languageId == 'php') {
+      pcf.lint(document)
+    }
+  })
+
   if (pcf.documentFormattingProvider) {
     context.subscriptions.push(
       languages.registerDocumentFormattingEditProvider('php', {
         provideDocumentFormattingEdits: (document, options, token) => {
-          return pcf.formattingProvider(document, options)
+          return pcf.formattingProvider(document, options, token)
         },
       })
     )
@@ -614,7 +1718,7 @@ exports.activate = (context: ExtensionContext) => {
     context.subscriptions.push(
       languages.registerDocumentRangeFormattingEditProvider('php', {
         provideDocumentRangeFormattingEdits: (document, range, options, token) => {
-          return pcf.rangeFormattingProvider(document, range)
+          return pcf.rangeFormattingProvider(document, range, token)
         },
       })
     )
@@ -630,6 +1734,10 @@ exports.activate = (context: ExtensionContext) => {
       }
       if (f && f.scheme == 'file') {
         let stat = fs.statSync(f.fsPath)
+        if (stat.isDirectory() && pcf.getSettings(f).previewFolderFix) {
+          pcf.fixPreview(f)
+          return
+        }
         if (stat.isDirectory()) {
           showOutput()
         }
@@ -656,9 +1764,93 @@ exports.activate = (context: ExtensionContext) => {
     })
   )
 
+  const showVersion = (editor = window.activeTextEditor) => {
+    if (editor != undefined && editor.document.languageId == 'php') {
+      pcf.showVersion(editor.document)
+    } else {
+      hideVersionInfo()
+    }
+  }
+  context.subscriptions.push(window.onDidChangeActiveTextEditor(showVersion))
+  // a config file may have been created or removed
+  context.subscriptions.push(workspace.onDidSaveTextDocument(() => showVersion()))
+  context.subscriptions.push(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('php-cs-fixer')) {
+        showVersion()
+      }
+    })
+  )
+  showVersion()
+
+  const report = new FixReportProvider()
+  context.subscriptions.push(window.registerTreeDataProvider('php-cs-fixer.report', report))
+
+  context.subscriptions.push(
+    commands.registerCommand('php-cs-fixer.fixWorkspace', () => {
+      pcf.fixWorkspace(report)
+    })
+  )
+
+  context.subscriptions.push(
+    commands.registerCommand('php-cs-fixer.clearReport', () => {
+      report.setReport([])
+    })
+  )
+
+  const rules = new RuleExplorerProvider(pcf.ruleCatalog, () => pcf.getRules(pcf.getRuleExplorerUri()))
+  context.subscriptions.push(window.registerTreeDataProvider('php-cs-fixer.rules', rules))
+  const schema = new RulesSchemaProvider(pcf.ruleCatalog)
+  context.subscriptions.push(workspace.registerTextDocumentContentProvider('php-cs-fixer', schema))
+  context.subscriptions.push(
+    pcf.ruleCatalog.onDidClear(() => {
+      rules.refresh()
+      schema.refresh()
+    })
+  )
+  context.subscriptions.push(
+    window.onDidChangeActiveTextEditor(() => {
+      rules.refresh()
+      // the php-cs-fixer of another folder
+      pcf.updateRuleCatalog()
+    })
+  )
+  context.subscriptions.push(
+    workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('php-cs-fixer.rules')) {
+        rules.refresh()
+      }
+    })
+  )
+  context.subscriptions.push(
+    commands.registerCommand('php-cs-fixer.toggleRule', (item: { rule: string }) => {
+      if (item?.rule) {
+        pcf.toggleRule(item.rule)
+      }
+    })
+  )
+
+  context.subscriptions.push(commands.registerCommand('php-cs-fixer.createConfig', () => pcf.createConfig()))
+  context.subscriptions.push(commands.registerCommand('php-cs-fixer.migrateSettings', () => pcf.createConfig(true)))
+
+  initDiskCache(path.join((context.storageUri || context.globalStorageUri).fsPath, 'cache'))
+  context.subscriptions.push(
+    commands.registerCommand('php-cs-fixer.clearCache', () => {
+      clearCache()
+      window.showInformationMessage('php-cs-fixer: cache cleared')
+    })
+  )
+
   context.subscriptions.push(commands.registerCommand('php-cs-fixer.showOutput', showOutput))
+  context.subscriptions.push(commands.registerCommand('php-cs-fixer.showActions', () => pcf.showActions()))
+
+  // the api of the extension, eg: `extensions.getExtension('junstyle.php-cs-fixer').exports`
+  return { setEmbeddedFormatter }
 }
 
 exports.deactivate = () => {
+  cancelJobs()
   disposeOutput()
+  disposeDiagnostics()
+  stopWorker()
 }
@@ -0,0 +1,94 @@
+import { CancellationToken, CancellationTokenSource } from 'vscode'
+
+interface Job {
+  input: string
+  source: CancellationTokenSource
+  promise: Promise<any>
+  // callers that can't cancel count as a waiter forever
+  waiters: number
+  timedOut: boolean
+}
+
+const jobs = new Map<string, Job>()
+
+function cancelledError() {
+  return Object.assign(new Error('php-cs-fixer request cancelled'), { code: 'CANCELLED' })
+}
+
+function startJob<T>(key: string, input: string, timeout: number, task: (token: CancellationToken) => Promise<T>): Job {
+  const source = new CancellationTokenSource()
+  const job: Job = { input, source, promise: null, waiters: 0, timedOut: false }
+  const timer = timeout > 0 ? setTimeout(() => {
+    job.timedOut = true
+    source.cancel()
+  }, timeout) : null
+
+  job.promise = new Promise((resolve, reject) => {
+    source.token.onCancellationRequested(() => {
+      reject(job.timedOut ? Object.assign(new Error(`php-cs-fixer timed out after ${timeout}ms`), { code: 'TIMEOUT' }) : cancelledError())
+    })
+    task(source.token).then(resolve, reject)
+  }).finally(() => {
+    clearTimeout(timer)
+    if (jobs.get(key) === job) {
+      jobs.delete(key)
+    }
+    source.dispose()
+  })
+  jobs.set(key, job)
+  return job
+}
+
+function waitJob<T>(job: Job, token: CancellationToken): Promise<T> {
+  job.waiters++
+  if (token == null) {
+    return job.promise
+  }
+  return new Promise((resolve, reject) => {
+    const onCancel = () => {
+      reject(cancelledError())
+      // nobody waits for the result any more
+      if (--job.waiters == 0) {
+        job.source.cancel()
+      }
+    }
+    if (token.isCancellationRequested) {
+      onCancel()
+      return
+    }
+    const listener = token.onCancellationRequested(onCancel)
+    job.promise.then(resolve, reject).finally(() => listener.dispose())
+  })
+}
+
+/**
+ * run a task as the job of a document, there is at most one job per key:
+ * the same input joins the running job, another input cancels it, so only the newest request is processed.
+ * the token passed to the task is cancelled when the job is replaced, when all callers cancelled, or after timeout ms.
+ */
+export function runJob<T>(key: string, input: string, timeout: number, token: CancellationToken, task: (token: CancellationToken) => Promise<T>): Promise<T> {
+  let job = jobs.get(key)
+  if (job == undefined || job.input !== input || job.source.token.isCancellationRequested) {
+    job?.source.cancel()
+    job = startJob(key, input, timeout, task)
+  }
+  return waitJob(job, token)
+}
+
+/**
+ * whether a job of the document is running, the keys of a document start with `uri#`
+ */
+export function hasJob(uri: string): boolean {
+  for (let key of jobs.keys()) {
+    if (key.startsWith(uri + '#')) {
+      return true
+    }
+  }
+  return false
+}
+
+export function cancelJobs() {
+  for (let job of jobs.values()) {
+    job.source.cancel()
+  }
+}
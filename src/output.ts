@@ -2,6 +2,7 @@ import { window, StatusBarAlignment } from 'vscode'
 
 let outputChannel = null
 let statusBarItem = null
+let versionBarItem = null
 
 function createOutput() {
   if (outputChannel == null) {
@@ -9,9 +10,53 @@ function createOutput() {
   }
 }
 
-export function output(str) {
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace'
+
+const logLevels: LogLevel[] = ['off', 'error', 'warn', 'info', 'debug', 'trace']
+let logLevel = logLevels.indexOf('info')
+let lastRequestId = 0
+
+export function setLogLevel(level: LogLevel) {
+  logLevel = logLevels.includes(level) ? logLevels.indexOf(level) : logLevels.indexOf('info')
+}
+
+/**
+ * whether messages of the level are written, to skip building expensive messages
+ */
+export function isLogging(level: LogLevel): boolean {
+  return logLevels.indexOf(level) <= logLevel
+}
+
+function timestamp(): string {
+  const d = new Date()
+  const pad = (n: number, length: number = 2) => String(n).padStart(length, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`
+}
+
+function log(level: LogLevel, message: string) {
+  if (!isLogging(level)) {
+    return
+  }
   createOutput()
-  outputChannel.appendLine(str)
+  outputChannel.appendLine(`${timestamp()} [${level}] ${message}`)
+}
+
+/**
+ * the output channel keeps the history, the lines are prefixed with a timestamp and the level
+ */
+export const logger = {
+  error: (message: string) => log('error', message),
+  warn: (message: string) => log('warn', message),
+  info: (message: string) => log('info', message),
+  debug: (message: string) => log('debug', message),
+  trace: (message: string) => log('trace', message),
+}
+
+/**
+ * an id to find the log lines of one php-cs-fixer process
+ */
+export function nextRequestId(): string {
+  return '#' + ++lastRequestId
 }
 
 export function showOutput() {
@@ -19,25 +64,42 @@ export function showOutput() {
   outputChannel.show(true)
 }
 
-export function clearOutput() {
-  outputChannel?.clear()
-}
-
-export function statusInfo(str) {
+/**
+ * @param details shown on hover, a click shows the output
+ */
+export function statusInfo(str, details: string = null) {
   if (statusBarItem == null) {
     statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left, -10000000)
     statusBarItem.command = 'php-cs-fixer.showOutput'
-    statusBarItem.tooltip = 'php-cs-fixer: show output'
   }
 
   statusBarItem.show()
   statusBarItem.text = 'php-cs-fixer: ' + str
+  statusBarItem.tooltip = details ? details + '\n\nclick to show details' : 'php-cs-fixer: show output'
 }
 
 export function hideStatusBar() {
   statusBarItem?.hide()
 }
 
+/**
+ * the persistent item of php files, a click shows the actions
+ */
+export function versionInfo(str, tooltip) {
+  if (versionBarItem == null) {
+    versionBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 100)
+    versionBarItem.command = 'php-cs-fixer.showActions'
+  }
+
+  versionBarItem.show()
+  versionBarItem.text = str
+  versionBarItem.tooltip = tooltip
+}
+
+export function hideVersionInfo() {
+  versionBarItem?.hide()
+}
+
 export function disposeOutput() {
   if (outputChannel) {
     outputChannel.clear()
@@ -47,6 +109,11 @@ export function disposeOutput() {
     statusBarItem.hide()
     statusBarItem.dispose()
   }
+  if (versionBarItem) {
+    versionBarItem.hide()
+    versionBarItem.dispose()
+  }
   outputChannel = null
   statusBarItem = null
+  versionBarItem = null
 }
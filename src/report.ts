@@ -0,0 +1,51 @@
+import * as path from 'path'
+import { commands, Event, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri, workspace } from 'vscode'
+
+export interface ReportFile {
+  uri: Uri
+  appliedFixers: string[]
+}
+
+type ReportItem = ReportFile | { file: ReportFile; fixer: string }
+
+/**
+ * summary of the last workspace fix: the changed files, and the fixers applied to each file
+ */
+export class FixReportProvider implements TreeDataProvider<ReportItem> {
+  private files: ReportFile[] = []
+  private changeEmitter = new EventEmitter<void>()
+  readonly onDidChangeTreeData: Event<void> = this.changeEmitter.event
+
+  setReport(files: ReportFile[]) {
+    this.files = files
+    commands.executeCommand('setContext', 'php-cs-fixer.hasReport', files.length > 0)
+    this.changeEmitter.fire()
+  }
+
+  getChildren(element?: ReportItem): ReportItem[] {
+    if (element == undefined) {
+      return this.files
+    }
+    if ('uri' in element) {
+      return element.appliedFixers.map((fixer) => ({ file: element, fixer }))
+    }
+    return []
+  }
+
+  getTreeItem(element: ReportItem): TreeItem {
+    if ('fixer' in element) {
+      let item = new TreeItem(element.fixer, TreeItemCollapsibleState.None)
+      item.iconPath = new ThemeIcon('wrench')
+      return item
+    }
+
+    let item = new TreeItem(element.uri, TreeItemCollapsibleState.Collapsed)
+    let folder = workspace.getWorkspaceFolder(element.uri)
+    if (folder != undefined) {
+      item.description = path.relative(folder.uri.fsPath, path.dirname(element.uri.fsPath))
+    }
+    item.tooltip = element.appliedFixers.join('\n')
+    item.command = { title: 'Open', command: 'vscode.open', arguments: [element.uri] }
+    return item
+  }
+}
@@ -0,0 +1,334 @@
+import { Event, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState } from 'vscode'
+
+export interface RuleSet {
+  name: string
+  description: string
+  isRisky: boolean
+}
+
+export interface RuleOption {
+  name: string
+  // the line of describe: `name (allowed values): description`
+  text: string
+  description: string
+  // the allowed values, eg: 'long', 'short'
+  values: any[]
+  // the allowed types, eg: bool, array, null
+  types: string[]
+  // the value is a list of the allowed values
+  subset: boolean
+}
+
+export interface RuleDescription {
+  name: string
+  description: string
+  isRisky: boolean
+  options: RuleOption[]
+  // the rules of a set
+  rules: string[]
+}
+
+type RuleItem = { group: 'sets' | 'fixers' } | { rule: string; set?: RuleSet } | { option: string }
+
+const ruleNamePattern = /^@?[A-Za-z][\w\-:\/]*(?:\.\d[\w\-:]*)?$/
+
+/**
+ * the rules setting as an object, it can be a json string or a comma separated list like `@PSR12,-single_quote`
+ */
+export function parseRules(rules: string): { [name: string]: any } {
+  rules = (rules || '').trim()
+  if (rules.startsWith('{')) {
+    return JSON.parse(rules)
+  }
+  let result = {}
+  for (let name of rules.split(',').map((r) => r.trim()).filter(Boolean)) {
+    if (name.startsWith('-')) {
+      result[name.slice(1)] = false
+    } else {
+      result[name] = true
+    }
+  }
+  return result
+}
+
+/**
+ * enable a rule which is not configured, disable an enabled rule, and forget a disabled rule
+ */
+export function toggleRule(rules: { [name: string]: any }, name: string): { [name: string]: any } {
+  rules = Object.assign({}, rules)
+  if (rules[name] === undefined) {
+    rules[name] = true
+  } else if (rules[name] === false) {
+    delete rules[name]
+  } else {
+    rules[name] = false
+  }
+  return rules
+}
+
+/**
+ * parse an option line of describe, eg: `syntax ('long', 'short'): whether to use the long or short array syntax`
+ */
+export function parseOption(text: string): RuleOption {
+  const option: RuleOption = { name: text, text, description: '', values: [], types: [], subset: false }
+  const ms = text.replace(/`/g, '').match(/^([\w-]+) \((.*?)\): (.*)$/)
+  if (ms == null) {
+    option.name = text.split(/[ :]/)[0]
+    return option
+  }
+  option.name = ms[1]
+  option.description = ms[3]
+  let allowed = ms[2]
+  if (allowed.startsWith('a subset of')) {
+    option.subset = true
+    allowed = allowed.replace(/^a subset of\s*/, '').replace(/^\[|\]$/g, '')
+  }
+  for (const value of allowed.match(/'(?:[^'\\]|\\.)*'|[^,\s]+/g) || []) {
+    if (value.startsWith("'")) {
+      option.values.push(value.slice(1, -1).replace(/\\(.)/g, '$1'))
+    } else if (value == 'true' || value == 'false') {
+      option.values.push(value == 'true')
+    } else {
+      option.types.push(value)
+    }
+  }
+  return option
+}
+
+/**
+ * parse the output of `php-cs-fixer describe <rule or set>`
+ */
+export function parseDescription(name: string, stdout: string): RuleDescription {
+  let lines = stdout.split(/\r?\n/)
+  let paragraphs = stdout.split(/\r?\n\s*\r?\n/).map((p) => p.trim())
+  let start = paragraphs.findIndex((p) => p.startsWith('Description of'))
+  let options: RuleOption[] = []
+  let rules: string[] = []
+  let inOptions = false
+  for (let line of lines) {
+    if (/configurable using following options?/i.test(line)) {
+      inOptions = true
+    } else if (inOptions && /^\* /.test(line)) {
+      options.push(parseOption(line.slice(2).trim()))
+    } else if (inOptions && line.trim() == '') {
+      inOptions = false
+    }
+    // the rules of a set are printed as a table or a list, a row per rule, eg: ` * final_internal_class risky`
+    let cell = line
+      .replace(/^\s*[|*]?\s*/, '')
+      .replace(/\s*\|?\s*$/, '')
+      .replace(/\s+risky$/i, '')
+    if (name.startsWith('@') && cell != name && ruleNamePattern.test(cell) && !rules.includes(cell)) {
+      rules.push(cell)
+    }
+  }
+  return {
+    name,
+    description: start > -1 && paragraphs[start + 1] ? paragraphs[start + 1].replace(/\s+/g, ' ') : '',
+    isRisky: name.startsWith('@') ? name.endsWith(':risky') : /applying this rule is risky/i.test(stdout),
+    options,
+    rules,
+  }
+}
+
+/**
+ * the rule sets and fixers of the installed php-cs-fixer, read from list-sets and describe
+ */
+export class RuleCatalog {
+  private sets: Promise<RuleSet[]> = null
+  private descriptions = new Map<string, Promise<RuleDescription>>()
+  private key: string = null
+  private clearEmitter = new EventEmitter<void>()
+  readonly onDidClear: Event<void> = this.clearEmitter.event
+
+  /**
+   * @param runCommand runs a php-cs-fixer command, and resolves its stdout
+   */
+  constructor(private runCommand: (args: string[]) => Promise<string>) {}
+
+  /**
+   * forget the sets and descriptions, eg: php-cs-fixer was changed
+   */
+  clear() {
+    this.sets = null
+    this.descriptions.clear()
+    this.clearEmitter.fire()
+  }
+
+  /**
+   * the catalog belongs to a php-cs-fixer, eg: its path and version, it is cleared only if that changes
+   * @returns whether the key changed
+   */
+  setKey(key: string): boolean {
+    if (key == this.key) {
+      return false
+    }
+    this.key = key
+    this.clear()
+    return true
+  }
+
+  getSets(): Promise<RuleSet[]> {
+    if (this.sets == null) {
+      this.sets = this.runCommand(['list-sets', '--format=json']).then((stdout) => {
+        let sets = JSON.parse(stdout).sets || {}
+        return Object.keys(sets).map((name) => ({ name, description: sets[name].description || '', isRisky: !!sets[name].isRisky }))
+      })
+      this.sets.catch(() => (this.sets = null))
+    }
+    return this.sets
+  }
+
+  describe(name: string): Promise<RuleDescription> {
+    if (!this.descriptions.has(name)) {
+      let description = this.runCommand(['describe', name]).then((stdout) => parseDescription(name, stdout))
+      description.catch(() => this.descriptions.delete(name))
+      this.descriptions.set(name, description)
+    }
+    return this.descriptions.get(name)
+  }
+
+  /**
+   * all fixers can't be listed, but @PhpCsFixer and @PhpCsFixer:risky contain nearly all of them
+   * @param extra other fixer names to include, eg: the fixers of the rules setting
+   */
+  getFixers(extra: string[] = []): Promise<string[]> {
+    let names = new Set<string>(extra.filter((name) => !name.startsWith('@')))
+    let described = new Set<string>()
+    // a set includes other sets, eg: @PhpCsFixer includes @Symfony which includes @PER-CS
+    let collect = (sets: string[]): Promise<void> => {
+      sets = sets.filter((set) => !described.has(set))
+      sets.forEach((set) => described.add(set))
+      return Promise.all(sets.map((set) => this.describe(set).catch(() => null))).then((descriptions) => {
+        let nested = []
+        descriptions.forEach((d) => d?.rules.forEach((name) => (name.startsWith('@') ? nested.push(name) : names.add(name))))
+        return nested.length > 0 ? collect(nested) : undefined
+      })
+    }
+    return collect(['@PhpCsFixer', '@PhpCsFixer:risky']).then(() => [...names].sort())
+  }
+}
+
+/**
+ * the rule sets and fixers of the installed php-cs-fixer, the rules enabled by the `rules` setting are checked
+ */
+export class RuleExplorerProvider implements TreeDataProvider<RuleItem> {
+  private changeEmitter = new EventEmitter<void>()
+  readonly onDidChangeTreeData: Event<void> = this.changeEmitter.event
+
+  /**
+   * @param getRules the rules of the `rules` setting
+   */
+  constructor(private catalog: RuleCatalog, private getRules: () => { [name: string]: any }) {}
+
+  refresh() {
+    this.changeEmitter.fire()
+  }
+
+  getChildren(element?: RuleItem): Promise<RuleItem[]> {
+    if (element == undefined) {
+      return Promise.resolve([{ group: 'sets' }, { group: 'fixers' }])
+    }
+    if ('group' in element) {
+      if (element.group == 'sets') {
+        return this.catalog.getSets().then((sets) => sets.map((set) => ({ rule: set.name, set })))
+      }
+      return this.catalog.getFixers(Object.keys(this.getRules())).then((names) => names.map((rule) => ({ rule })))
+    }
+    if ('rule' in element) {
+      return this.catalog.describe(element.rule).then((d) =>
+        element.rule.startsWith('@') ? d.rules.map((rule) => ({ rule })) : d.options.map((option) => ({ option: option.text }))
+      )
+    }
+    return Promise.resolve([])
+  }
+
+  getTreeItem(element: RuleItem): TreeItem {
+    if ('group' in element) {
+      return new TreeItem(element.group == 'sets' ? 'Rule Sets' : 'Fixers', TreeItemCollapsibleState.Collapsed)
+    }
+    if ('option' in element) {
+      let item = new TreeItem(element.option, TreeItemCollapsibleState.None)
+      item.tooltip = element.option
+      return item
+    }
+
+    let value = this.getRules()[element.rule]
+    let item = new TreeItem(element.rule, TreeItemCollapsibleState.Collapsed)
+    item.contextValue = 'rule'
+    item.iconPath = new ThemeIcon(value === undefined ? 'circle-large-outline' : value === false ? 'circle-slash' : 'pass-filled')
+    item.description = (element.set?.isRisky ? 'risky ' : '') + (value === undefined ? '' : value === false ? 'disabled' : 'enabled')
+    if (element.set != undefined) {
+      item.tooltip = element.set.description
+    }
+    return item
+  }
+
+  resolveTreeItem(item: TreeItem, element: RuleItem): Promise<TreeItem> {
+    if (!('rule' in element)) {
+      return Promise.resolve(item)
+    }
+    return this.catalog.describe(element.rule).then(
+      (d) => {
+        item.tooltip = [d.description || element.set?.description, d.isRisky ? 'risky' : '', ...d.options.map((o) => '- ' + o.text)].filter(Boolean).join('\n')
+        return item
+      },
+      () => item
+    )
+  }
+}
+
+function validateOptions(description: RuleDescription, value: any): string[] {
+  const name = description.name
+  if (typeof value == 'boolean') {
+    return []
+  }
+  if (value == null || typeof value != 'object' || Array.isArray(value)) {
+    return [`"${name}" must be true, false or an object of options`]
+  }
+  if (description.options.length == 0) {
+    return [`"${name}" has no options, use true or false`]
+  }
+
+  const problems = []
+  for (const key of Object.keys(value)) {
+    const option = description.options.find((o) => o.name == key)
+    if (option == undefined) {
+      problems.push(`"${name}" has no option "${key}", the options are: ${description.options.map((o) => o.name).join(', ')}`)
+    } else if (option.values.length > 0 && option.types.length == 0) {
+      const values = option.subset && Array.isArray(value[key]) ? value[key] : [value[key]]
+      const invalid = values.filter((v) => !option.values.includes(v))
+      if (invalid.length > 0) {
+        problems.push(`"${name}.${key}" doesn't allow ${invalid.map((v) => JSON.stringify(v)).join(', ')}, the values are: ${option.values.map((v) => JSON.stringify(v)).join(', ')}`)
+      }
+    }
+  }
+  return problems
+}
+
+/**
+ * the problems of the rules: unknown sets, fixers and options, and option values which are not allowed.
+ * nothing is reported if php-cs-fixer can't list its sets, eg: it is not installed.
+ */
+export function validateRules(rules: { [name: string]: any }, catalog: RuleCatalog): Promise<string[]> {
+  return catalog.getSets().then(
+    (sets) =>
+      Promise.all(
+        Object.keys(rules).map((name) => {
+          if (name.startsWith('@')) {
+            return sets.some((set) => set.name == name) ? [] : [`rule set "${name}" not found`]
+          }
+          return catalog.describe(name).then(
+            (description) => validateOptions(description, rules[name]),
+            (err) => {
+              // eg: Rule "foo" not found. Did you mean "bar"?
+              let lines = ((err?.stdout || '') + '\n' + (err?.stderr || '')).split(/\r?\n/).map((l) => l.trim())
+              let message = lines.filter((l) => /not found|did you mean/i.test(l)).join(' ')
+              return message ? [message] : []
+            }
+          )
+        })
+      ).then((problems) => [].concat(...problems)),
+    () => []
+  )
+}
@@ -0,0 +1,130 @@
+import { Event, EventEmitter, TextDocumentContentProvider, Uri } from 'vscode'
+import { logger } from './output'
+import { RuleCatalog, RuleDescription, RuleOption, RuleSet } from './rules'
+
+export const schemaUri = Uri.parse('php-cs-fixer://schemas/settings.json')
+
+const typeSchemas = {
+  bool: { type: 'boolean' },
+  int: { type: 'integer' },
+  float: { type: 'number' },
+  string: { type: 'string' },
+  array: { type: ['array', 'object'] },
+  null: { type: 'null' },
+}
+
+function optionSchema(option: RuleOption): object {
+  const schemas: object[] = option.types.map((type) => typeSchemas[type]).filter(Boolean)
+  if (option.subset) {
+    schemas.push({ type: 'array', items: { enum: option.values }, uniqueItems: true })
+  } else if (option.values.length > 0) {
+    schemas.push({ enum: option.values })
+  }
+  const schema: any = schemas.length == 1 ? schemas[0] : schemas.length > 1 ? { anyOf: schemas } : {}
+  return Object.assign({ description: option.description }, schema)
+}
+
+/**
+ * the json schema of the `php-cs-fixer.rules` setting in settings.json and in the settings of a .code-workspace
+ * @param fixers the fixers described so far, the others only get their name completed
+ */
+export function buildSchema(sets: RuleSet[], names: string[], fixers: RuleDescription[]): object {
+  const properties = {}
+  for (const set of sets) {
+    properties[set.name] = { type: 'boolean', description: set.description + (set.isRisky ? ' (risky)' : '') }
+  }
+  for (const name of names) {
+    properties[name] = { type: ['boolean', 'object'] }
+  }
+  for (const fixer of fixers) {
+    const options = {}
+    fixer.options.forEach((option) => (options[option.name] = optionSchema(option)))
+    properties[fixer.name] = {
+      description: fixer.description + (fixer.isRisky ? ' (risky)' : ''),
+      anyOf: [{ type: 'boolean' }, { type: 'object', properties: options, additionalProperties: false }],
+    }
+  }
+
+  const rules = {
+    anyOf: [
+      { type: 'string', description: 'comma separated rules, eg: @PSR12,-single_quote, or a json object' },
+      { type: 'object', properties, description: 'the rules, and the options of the configurable rules' },
+    ],
+  }
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+      'php-cs-fixer.rules': rules,
+      settings: { type: 'object', properties: { 'php-cs-fixer.rules': rules } },
+    },
+  }
+}
+
+/**
+ * serves the schema generated from the installed php-cs-fixer to the json language server,
+ * the rule names come first, the options of every fixer are described in the background.
+ */
+export class RulesSchemaProvider implements TextDocumentContentProvider {
+  private schema: object = null
+  private generation = 0
+  private changeEmitter = new EventEmitter<Uri>()
+  readonly onDidChange: Event<Uri> = this.changeEmitter.event
+
+  constructor(private catalog: RuleCatalog) {}
+
+  provideTextDocumentContent(uri: Uri): string {
+    if (this.schema == null) {
+      this.schema = buildSchema([], [], [])
+      this.generate()
+    }
+    return JSON.stringify(this.schema, null, 2)
+  }
+
+  /**
+   * generate the schema again if it was requested, eg: php-cs-fixer was changed
+   */
+  refresh() {
+    if (this.schema != null) {
+      this.generate()
+    }
+  }
+
+  private generate() {
+    const generation = ++this.generation
+    const update = (schema: object) => {
+      if (generation == this.generation) {
+        this.schema = schema
+        this.changeEmitter.fire(schemaUri)
+      }
+    }
+
+    Promise.all([this.catalog.getSets(), this.catalog.getFixers()])
+      .then(([sets, names]) => {
+        update(buildSchema(sets, names, []))
+
+        // one by one, not to start hundreds of php processes at once
+        const fixers: RuleDescription[] = []
+        return names
+          .reduce(
+            (promise, name) =>
+              promise.then(() => {
+                if (generation != this.generation) {
+                  return
+                }
+                return this.catalog.describe(name).then(
+                  (d) => {
+                    fixers.push(d)
+                  },
+                  () => {}
+                )
+              }),
+            Promise.resolve()
+          )
+          .then(() => update(buildSchema(sets, names, fixers)))
+      })
+      .catch((err) => {
+        logger.error('rules schema: ' + err.message)
+      })
+  }
+}
@@ -1,8 +1,10 @@
 import { spawn, SpawnOptionsWithoutStdio } from 'child_process';
-import { output } from './output';
+import { isLogging, logger, nextRequestId } from './output';
 
-export function runAsync(command: string, args: string[], options: SpawnOptionsWithoutStdio, onData: (data: Buffer) => void = null) {
+export function runAsync(command: string, args: string[], options: SpawnOptionsWithoutStdio, onData: (data: Buffer) => void = null, input: string | Buffer = null) {
   const cpOptions = Object.assign({}, options, { shell: process.platform == 'win32' })
+  const id = nextRequestId()
+  const start = Date.now()
   let cp;
   try {
     if (process.platform == 'win32') {
@@ -11,16 +13,13 @@ export function runAsync(command: string, args: string[], options: SpawnOptionsW
       }
     }
 
-    output('runAsync: spawn ' + command);
-    output(JSON.stringify(args, null, 2))
-    output(JSON.stringify(cpOptions, null, 2))
+    logger.info(`${id} spawn ${command} ${args.join(' ')}`)
+    isLogging('debug') && logger.debug(`${id} options ${JSON.stringify(cpOptions)}`)
 
     cp = spawn(command, args, cpOptions)
   } catch (err) {
     const promise = new Promise((resolve, reject) => {
-      output('runAsync: error')
-      output(JSON.stringify(err, null, 2))
-      output('runAsync: reject promise')
+      logger.error(`${id} spawn failed: ${err.message}`)
       reject(err)
     })
       ; (promise as any).cp = cp
@@ -56,9 +55,7 @@ export function runAsync(command: string, args: string[], options: SpawnOptionsW
     const onError = (err) => {
       cleanupListeners()
 
-      output('runAsync: error')
-      output(JSON.stringify(err, null, 2))
-      output('runAsync: reject promise')
+      logger.error(`${id} failed after ${Date.now() - start}ms: ${err.message}`)
       reject(err)
     }
 
@@ -67,20 +64,26 @@ export function runAsync(command: string, args: string[], options: SpawnOptionsW
 
       const resolved = resolveRun(code, stdout, stderr)
 
+      logger.info(`${id} exited with code ${code} in ${Date.now() - start}ms`)
+      resolved.stdout && logger.trace(`${id} stdout ${resolved.stdout}`)
+      if (resolved.stderr) {
+        // dry-run exits with 8 if the code needs fixing, so the caller decides if it is an error
+        code == 0 ? logger.trace(`${id} stderr ${resolved.stderr}`) : logger.debug(`${id} stderr ${resolved.stderr}`)
+      }
       if (resolved instanceof Error) {
-        output('runAsync: error')
-        output(JSON.stringify(resolved, null, 2))
-        output('runAsync: reject promise')
         reject(resolved)
       } else {
-        output('runAsync: success')
-        output(JSON.stringify(resolved, null, 2))
-        output('runAsync: resolve promise')
         resolve(resolved)
       }
     }
 
     cp.on('error', onError).on('close', onClose)
+
+    if (input != null && cp.stdin) {
+      // the process may exit before reading stdin, the error is reported by onClose
+      cp.stdin.on('error', (err) => logger.debug(`${id} stdin ${err.message}`))
+      cp.stdin.end(input)
+    }
   })
 
     ; (promise as any).cp = cp
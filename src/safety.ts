@@ -0,0 +1,63 @@
+const phpParser = require('php-parser')
+
+/**
+ * the parse error of the code, eg: `Parse Error : syntax error, unexpected ';' on line 2`, null if it parses
+ */
+export function getParseError(code: string): string | null {
+  try {
+    new phpParser({ parser: { extractDoc: false } }).parseCode(code, 'formatted.php')
+    return null
+  } catch (err) {
+    return err.message
+  }
+}
+
+/**
+ * the tokens with their lines, the whitespace is ignored
+ * @param ignoreHtml ignore the html of a template too
+ */
+function getTokens(code: string, ignoreHtml: boolean): [string, number][] {
+  let tokens: [string, number][] = []
+  let line = 1
+  for (let t of new phpParser().tokenGetAll(code)) {
+    let [name, value] = typeof t == 'string' ? [null, t] : [t[0], t[1]]
+    let text = value.replace(/\s+/g, ' ').trim()
+    if (text != '' && name != 'T_WHITESPACE' && !(ignoreHtml && name == 'T_INLINE_HTML')) {
+      tokens.push([text, line])
+    }
+    line += value.split('\n').length - 1
+  }
+  return tokens
+}
+
+/**
+ * the first difference of the tokens ignoring the whitespace, null if they are the same
+ */
+export function compareTokens(before: string, after: string, ignoreHtml: boolean): string | null {
+  let a = getTokens(before, ignoreHtml)
+  let b = getTokens(after, ignoreHtml)
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i]?.[0] !== b[i]?.[0]) {
+      let line = b[i]?.[1] ?? b[b.length - 1]?.[1] ?? 1
+      return `the tokens changed on line ${line}: ${a[i] ? '`' + a[i][0] + '`' : 'nothing'} became ${b[i] ? '`' + b[i][0] + '`' : 'nothing'}`
+    }
+  }
+  return null
+}
+
+/**
+ * why the formatted code must not be applied: it doesn't parse anymore, or its tokens changed. null if it is safe.
+ * nothing is checked if the original code doesn't parse, eg: php-parser doesn't know a newer syntax.
+ * @param compare also compare the tokens ignoring the whitespace
+ * @param ignoreHtml ignore the html when comparing the tokens, eg: after the html formatting
+ */
+export function checkFormatted(before: string, after: string, compare: boolean, ignoreHtml: boolean): string | null {
+  if (before == after || getParseError(before) != null) {
+    return null
+  }
+  let error = getParseError(after)
+  if (error != null) {
+    return error
+  }
+  return compare ? compareTokens(before, after, ignoreHtml) : null
+}
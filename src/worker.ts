@@ -0,0 +1,160 @@
+import { ChildProcess, spawn, SpawnOptionsWithoutStdio } from 'child_process'
+import * as path from 'path'
+import { CancellationToken } from 'vscode'
+import { logger, nextRequestId } from './output'
+
+let worker: ChildProcess = null
+let workerKey: string = null
+let failedKey: string = null
+let buffer = ''
+let responded = false
+let lastId = 0
+let pending = new Map<number, { resolve: (value: any) => void; reject: (reason: any) => void }>()
+
+function startWorker(php: string, fixerPath: string) {
+  const key = php + '\n' + fixerPath
+  if (worker != null && workerKey == key) {
+    return worker
+  }
+  stopWorker()
+
+  logger.info('worker: start ' + php + ' ' + fixerPath)
+  workerKey = key
+  responded = false
+  worker = spawn(php, [path.join(__dirname, 'php-cs-fixer-worker.php'), fixerPath], { shell: false })
+  const cp = worker
+  cp.stdout.on('data', (data) => {
+    buffer += data.toString()
+    let index: number
+    while ((index = buffer.indexOf('\n')) > -1) {
+      let line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 1)
+      onResponse(line)
+    }
+  })
+  cp.stdin.on('error', (err) => {
+    logger.debug('worker: stdin ' + err.message)
+  })
+  cp.stderr.on('data', (data) => {
+    logger.debug('worker: stderr ' + data.toString())
+  })
+  const onExit = (err) => {
+    if (worker !== cp) {
+      return
+    }
+    err ? logger.error('worker: exited, ' + err.message) : logger.info('worker: exited')
+    // don't restart a worker that can't even answer one request
+    if (!responded) {
+      failedKey = key
+    }
+    worker = null
+    workerKey = null
+    buffer = ''
+    rejectPending()
+  }
+  cp.on('error', onExit).on('exit', () => onExit(null))
+  return worker
+}
+
+function onResponse(line: string) {
+  let response
+  try {
+    response = JSON.parse(line)
+  } catch (err) {
+    logger.warn('worker: invalid response ' + line)
+    return
+  }
+  responded = true
+  let request = pending.get(response.id)
+  if (request == undefined) {
+    return
+  }
+  pending.delete(response.id)
+
+  let { exitCode, stdout, stderr } = response
+  if (exitCode !== 0) {
+    request.reject(Object.assign(new Error(`Command failed, exited with code #${exitCode}`), { exitCode, stdout, stderr }))
+  } else {
+    request.resolve({ stdout, stderr })
+  }
+}
+
+function rejectPending() {
+  const requests = [...pending.values()]
+  pending.clear()
+  requests.forEach((request) => request.reject(Object.assign(new Error('php-cs-fixer worker exited'), { code: 'WORKER_EXIT' })))
+}
+
+/**
+ * run php-cs-fixer in the long-lived worker process, calls `fallback` to spawn php-cs-fixer if the worker dies on its own.
+ * a cancelled request is rejected with code CANCELLED and is not run again, eg: after a timeout stopped the worker.
+ * @param args the php-cs-fixer arguments, without the phar path
+ */
+export function runInWorker(php: string, fixerPath: string, args: string[], options: SpawnOptionsWithoutStdio, token: CancellationToken, fallback: () => Promise<any>): Promise<any> {
+  const cancelled = () => Object.assign(new Error('php-cs-fixer request cancelled'), { code: 'CANCELLED' })
+  if (token?.isCancellationRequested) {
+    return Promise.reject(cancelled())
+  }
+  if (failedKey == php + '\n' + fixerPath) {
+    return fallback()
+  }
+
+  let cp: ChildProcess
+  try {
+    cp = startWorker(php, fixerPath)
+  } catch (err) {
+    logger.error('worker: ' + err.message)
+    return fallback()
+  }
+
+  const id = ++lastId
+  const requestId = nextRequestId()
+  const start = Date.now()
+  logger.info(`${requestId} worker request ${args.join(' ')}`)
+  const promise = new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    // the variables of php-cs-fixer only, eg: PHP_CS_FIXER_IGNORE_ENV, the worker has the environment of vscode
+    const env = {}
+    Object.keys(options.env || {})
+      .filter((key) => key.startsWith('PHP_CS_FIXER_'))
+      .forEach((key) => (env[key] = options.env[key]))
+    cp.stdin.write(JSON.stringify({ id, args, cwd: options.cwd, env }) + '\n')
+  })
+  const listener = token?.onCancellationRequested(() => {
+    // the worker may still run it, but nobody waits for the result
+    const request = pending.get(id)
+    pending.delete(id)
+    request?.reject(cancelled())
+  })
+  return promise
+    .finally(() => listener?.dispose())
+    .then(
+      (result) => {
+        logger.info(`${requestId} done in ${Date.now() - start}ms`)
+        return result
+      },
+      (err) => {
+        if (err.code == 'CANCELLED') {
+          logger.info(`${requestId} cancelled after ${Date.now() - start}ms`)
+          throw err
+        }
+        if (err.code == 'WORKER_EXIT') {
+          logger.warn(`${requestId} the worker exited, fallback to spawn`)
+          return fallback()
+        }
+        logger.info(`${requestId} exited with code ${err.exitCode} in ${Date.now() - start}ms`)
+        throw err
+      }
+    )
+}
+
+export function stopWorker() {
+  if (worker != null) {
+    const cp = worker
+    worker = null
+    workerKey = null
+    buffer = ''
+    rejectPending()
+    cp.kill()
+  }
+}